@@ -5,15 +5,22 @@ dotenv.config();
 import express from "express";
 import cors from "cors";
 import { Database } from "./lib/database";
-import { WarcraftLogsClient } from "./lib/wcl";
+import { WarcraftLogsClient, WclPrivateReportError } from "./lib/wcl";
 import { BlizzardApiClient } from "./lib/blizzard";
 import { YouTubeClient } from "./lib/youtube";
 import { TwitchClient } from "./lib/twitch";
 import { parseYouTubeUrl, parseTwitchUrl, parseWCLUrl, detectVODPlatform } from "./lib/urlParsers";
-import { Video } from "./models";
+import { suggestCharacter } from "./lib/characterMatch";
+import { LiveReportWatcher } from "./lib/liveReports";
+import { mergeReports } from "./lib/reportMerge";
+import { wclSessionMiddleware, wclUserContext, createLoginState, consumeLoginState, resolveReturnTo, setWclSessionCookie, clearWclSessionCookie } from "./lib/wclSession";
+import { createShareId, createEditToken, validateSessionRequest, getSessionUpdate, toSessionResponse, suggestAlignment } from "./lib/reviewSessions";
+import { Video, PovSelection, WclUserSession, Session } from "./models";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+const SECURE_COOKIES = FRONTEND_URL.startsWith("https://");
 
 // Initialize database connection
 const database = Database.getInstance();
@@ -21,6 +28,9 @@ const database = Database.getInstance();
 // Initialize WCL client (now environment variables are loaded)
 const wclClient = new WarcraftLogsClient();
 
+// Initialize live report polling (shares the WCL client)
+const liveReports = new LiveReportWatcher(wclClient);
+
 // Initialize Blizzard API client
 const blizzardClient = new BlizzardApiClient();
 
@@ -31,8 +41,10 @@ const youtubeClient = new YouTubeClient();
 const twitchClient = new TwitchClient();
 
 // Middleware
-app.use(cors());
+// Credentials let the frontend send the WCL session cookie
+app.use(cors({ origin: FRONTEND_URL, credentials: true }));
 app.use(express.json());
+app.use(wclSessionMiddleware);
 
 // Connect to database
 database.connect().catch((error) => {
@@ -50,6 +62,17 @@ database
     console.error("Failed to initialize Blizzard API:", error);
   });
 
+// Add boss icons to fights (trash pulls have no boss icon)
+const addBossIcons = async <T extends { name: string; isTrash?: boolean }>(fights: T[]) => {
+  // Batch fetch all boss icons by unique boss name
+  const bossIconMap = await blizzardClient.getBossIconUrls(fights.filter((fight) => !fight.isTrash).map((fight) => fight.name));
+
+  return fights.map((fight) => ({
+    ...fight,
+    iconUrl: (!fight.isTrash && bossIconMap.get(fight.name)) || null,
+  }));
+};
+
 // Basic route
 app.get("/", (req, res) => {
   res.json({ message: "WCL VOD Review Backend API" });
@@ -65,10 +88,72 @@ app.get("/health", (req, res) => {
   });
 });
 
+// Start logging in with a WCL account: redirect to WCL, which comes back to the callback below
+app.get("/api/auth/wcl/login", (req: express.Request, res: express.Response) => {
+  // Only send users back into our own frontend
+  const returnTo = resolveReturnTo(req.query.returnTo, FRONTEND_URL);
+
+  res.redirect(wclClient.getAuthorizationUrl(createLoginState(returnTo)));
+});
+
+// Finish a WCL login, store the new session in its cookie and send the user back
+app.get("/api/auth/wcl/callback", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code, state } = req.query;
+
+    if (typeof code !== "string" || typeof state !== "string") {
+      return res.status(400).json({ error: "code and state are required" });
+    }
+
+    const returnTo = consumeLoginState(state);
+    if (!returnTo) {
+      return res.status(400).json({ error: "Login expired or was not started here, please try again" });
+    }
+
+    const session = await wclClient.createUserSession(code);
+
+    setWclSessionCookie(res, session.sessionId, SECURE_COOKIES);
+    res.redirect(returnTo);
+  } catch (error: any) {
+    console.error("Error completing WCL login:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get the WCL user of the current session
+app.get("/api/auth/wcl/me", async (req: express.Request, res: express.Response) => {
+  try {
+    const sessionId = wclUserContext.getStore()?.sessionId;
+    const session = sessionId ? await WclUserSession.findOne({ sessionId }) : null;
+
+    res.json(session ? { loggedIn: true, userName: session.wclUserName } : { loggedIn: false });
+  } catch (error: any) {
+    console.error("Error fetching WCL user:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Log out: forget the session's WCL tokens
+app.post("/api/auth/wcl/logout", async (req: express.Request, res: express.Response) => {
+  try {
+    const sessionId = wclUserContext.getStore()?.sessionId;
+    if (sessionId) {
+      await WclUserSession.deleteOne({ sessionId });
+    }
+
+    clearWclSessionCookie(res, SECURE_COOKIES);
+
+    res.json({ loggedIn: false });
+  } catch (error: any) {
+    console.error("Error logging out WCL user:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Parse URLs endpoint
 app.post("/api/parse-urls", async (req: express.Request, res: express.Response) => {
   try {
-    const { wclUrl, vodUrl } = req.body;
+    const { wclUrl, vodUrl, extraWclUrls } = req.body;
 
     if (!wclUrl || !vodUrl) {
       return res.status(400).json({
@@ -76,8 +161,18 @@ app.post("/api/parse-urls", async (req: express.Request, res: express.Response)
       });
     }
 
-    // Parse WCL URL
+    // Parse WCL URL, plus any further reports of the same raid night
     const wclData = parseWCLUrl(wclUrl);
+    const extraUrls: string[] = Array.isArray(extraWclUrls) ? extraWclUrls.filter((url: unknown) => typeof url === "string" && url.trim()) : [];
+    const extraWclCodes: string[] = [];
+
+    for (const url of extraUrls) {
+      try {
+        extraWclCodes.push(parseWCLUrl(url).code);
+      } catch {
+        return res.status(400).json({ error: `Invalid Warcraft Logs URL: ${url}` });
+      }
+    }
 
     // Parse VOD URL
     const vodPlatform = detectVODPlatform(vodUrl);
@@ -96,7 +191,7 @@ app.post("/api/parse-urls", async (req: express.Request, res: express.Response)
     }
 
     const response = {
-      wcl: wclData,
+      wcl: { ...wclData, extraCodes: extraWclCodes },
       vod: {
         platform: vodPlatform,
         id: vodData.id,
@@ -138,6 +233,9 @@ app.post("/api/parse-urls", async (req: express.Request, res: express.Response)
           title: metadata.title,
           description: metadata.description,
           publishedAt: (metadata as any).publishedAt,
+          actualStartTime: (metadata as any).actualStartTime,
+          actualEndTime: (metadata as any).actualEndTime,
+          isLiveStream: (metadata as any).isLiveStream,
           createdAt: (metadata as any).createdAt,
           channelId: (metadata as any).channelId,
           channelTitle: (metadata as any).channelTitle,
@@ -182,17 +280,8 @@ app.get("/api/wcl/reports/:code", async (req: express.Request, res: express.Resp
       return res.status(404).json({ error: "Report not found" });
     }
 
-    // Extract unique boss names for batch processing
-    const bossNames = report.fights.map((fight) => fight.name);
-
-    // Batch fetch all boss icons
-    const bossIconMap = await blizzardClient.getBossIconUrls(bossNames);
-
-    // Enhance fights with boss icons from the batch result
-    const enhancedFights = report.fights.map((fight) => ({
-      ...fight,
-      iconUrl: bossIconMap.get(fight.name) || null,
-    }));
+    // Enhance fights with boss icons
+    const enhancedFights = await addBossIcons(report.fights);
 
     // Calculate total duration (endTime already comes from WCL API)
     const totalDuration = report.endTime - report.startTime; // Duration in milliseconds
@@ -206,10 +295,73 @@ app.get("/api/wcl/reports/:code", async (req: express.Request, res: express.Resp
     res.json(enhancedReport);
   } catch (error: any) {
     console.error("Error fetching report:", error);
-    res.status(500).json({ error: error.message });
+    res.status(error instanceof WclPrivateReportError ? 403 : 500).json({ error: error.message });
+  }
+});
+
+// Get several reports of one raid night merged into a single session on one wall-clock axis
+app.get("/api/wcl/merged-reports", async (req: express.Request, res: express.Response) => {
+  try {
+    const codes = typeof req.query.codes === "string" ? [...new Set(req.query.codes.split(",").filter(Boolean))] : [];
+
+    if (codes.length === 0) {
+      return res.status(400).json({ error: "At least one report code is required" });
+    }
+
+    const reports = await Promise.all(codes.map((code) => wclClient.getReportWithEncounterDetails(code)));
+    const foundReports = reports.flatMap((report, index) => (report ? [{ ...report, code: codes[index] }] : []));
+
+    if (foundReports.length < codes.length) {
+      return res.status(404).json({ error: `Report ${codes[reports.findIndex((report) => !report)]} not found` });
+    }
+
+    const merged = mergeReports(foundReports);
+
+    res.json({
+      ...merged,
+      fights: await addBossIcons(merged.fights),
+      totalDuration: merged.endTime - merged.startTime,
+    });
+  } catch (error: any) {
+    console.error("Error fetching merged reports:", error);
+    res.status(error instanceof WclPrivateReportError ? 403 : 500).json({ error: error.message });
   }
 });
 
+// Follow a report that is still being logged: Server-Sent Events with the updated fight list whenever new pulls show up
+app.get("/api/wcl/reports/:code/live", async (req: express.Request, res: express.Response) => {
+  const { code } = req.params;
+
+  if (!code) {
+    return res.status(400).json({ error: "Report code is required" });
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  // Fights the page already shows, so pulls missing from its (possibly cached) report are pushed on the first poll
+  const fightCount = typeof req.query.fightCount === "string" ? parseInt(req.query.fightCount) : NaN;
+
+  const stopFollowing = liveReports.follow(code, Number.isInteger(fightCount) && fightCount >= 0 ? fightCount : undefined, async ({ report, newFights }) => {
+    try {
+      res.write(
+        `event: fights\ndata: ${JSON.stringify({
+          fights: await addBossIcons(report.fights),
+          newFightIds: newFights.map((fight) => fight.id),
+          endTime: report.endTime,
+          totalDuration: report.endTime - report.startTime,
+        })}\n\n`
+      );
+    } catch (error: any) {
+      console.error("Error sending live report update:", error);
+    }
+  });
+
+  req.on("close", stopFollowing);
+});
+
 // Get WCL report with enhanced encounter details (including journalID)
 app.get("/api/wcl/reports/:code/enhanced", async (req: express.Request, res: express.Response) => {
   try {
@@ -225,17 +377,8 @@ app.get("/api/wcl/reports/:code/enhanced", async (req: express.Request, res: exp
       return res.status(404).json({ error: "Report not found" });
     }
 
-    // Extract unique boss names for batch processing
-    const bossNames = report.fights.map((fight) => fight.name);
-
-    // Batch fetch all boss icons
-    const bossIconMap = await blizzardClient.getBossIconUrls(bossNames);
-
-    // Enhance fights with boss icons from the batch result
-    const enhancedFights = report.fights.map((fight) => ({
-      ...fight,
-      iconUrl: bossIconMap.get(fight.name) || null,
-    }));
+    // Enhance fights with boss icons
+    const enhancedFights = await addBossIcons(report.fights);
 
     // Calculate total duration (endTime already comes from WCL API)
     const totalDuration = report.endTime - report.startTime; // Duration in milliseconds
@@ -249,6 +392,81 @@ app.get("/api/wcl/reports/:code/enhanced", async (req: express.Request, res: exp
     res.json(enhancedReport);
   } catch (error: any) {
     console.error("Error fetching enhanced report:", error);
+    res.status(error instanceof WclPrivateReportError ? 403 : 500).json({ error: error.message });
+  }
+});
+
+// Get the actors of a report (the raid roster by default)
+app.get("/api/wcl/reports/:code/actors", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code } = req.params;
+    const type = typeof req.query.type === "string" ? req.query.type : "Player";
+
+    if (!code) {
+      return res.status(400).json({ error: "Report code is required" });
+    }
+
+    const actors = await wclClient.getActors(code, type);
+
+    res.json({ actors });
+  } catch (error: any) {
+    console.error("Error fetching actors:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get the saved POV character for a report and video, with a suggestion from the channel name
+app.get("/api/wcl/reports/:code/pov/:platform/:videoId", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code, platform, videoId } = req.params;
+
+    if (!code || !platform || !videoId) {
+      return res.status(400).json({ error: "Report code, platform and videoId are required" });
+    }
+
+    const selection = await PovSelection.findOne({ reportCode: code, platform, videoId });
+
+    // Channel names come from the cached video metadata
+    const video = await Video.findOne({ platform, videoId });
+    const players = await wclClient.getActors(code);
+    const suggestion = video ? suggestCharacter([video.userName, video.userLogin, video.channelTitle], players) : null;
+
+    res.json({ selection, suggestion });
+  } catch (error: any) {
+    console.error("Error fetching POV character:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Save or clear the POV character for a report and video
+app.put("/api/wcl/reports/:code/pov/:platform/:videoId", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code, platform, videoId } = req.params;
+    const { actorId } = req.body;
+
+    if (platform !== "youtube" && platform !== "twitch") {
+      return res.status(400).json({ error: "Platform must be 'youtube' or 'twitch'" });
+    }
+
+    if (actorId === null) {
+      await PovSelection.deleteOne({ reportCode: code, platform, videoId });
+      return res.json({ selection: null });
+    }
+
+    const actor = (await wclClient.getActors(code)).find((a) => a.id === actorId);
+    if (!actor) {
+      return res.status(400).json({ error: "actorId must be a player in the report" });
+    }
+
+    const selection = await PovSelection.findOneAndUpdate(
+      { reportCode: code, platform, videoId },
+      { reportCode: code, platform, videoId, actorId: actor.id, actorName: actor.name, lastUpdated: new Date() },
+      { upsert: true, new: true }
+    );
+
+    res.json({ selection });
+  } catch (error: any) {
+    console.error("Error saving POV character:", error);
     res.status(500).json({ error: error.message });
   }
 });
@@ -282,6 +500,176 @@ app.post("/api/wcl/reports/:code/events", async (req: express.Request, res: expr
   }
 });
 
+// Get deaths and boss casts of every pull in a report for the zoomed-out overview
+app.get("/api/wcl/reports/:code/overview", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code } = req.params;
+
+    if (!code) {
+      return res.status(400).json({ error: "Report code is required" });
+    }
+
+    const result = await wclClient.getReportOverview(code);
+
+    res.json({
+      events: result.events,
+      cached: result.cached,
+      lastUpdated: result.lastUpdated,
+    });
+  } catch (error: any) {
+    console.error("Error fetching report overview:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Stream events for a specific fight as Server-Sent Events, one message per fetched page
+app.get("/api/wcl/reports/:code/events/stream", async (req: express.Request, res: express.Response) => {
+  const { code } = req.params;
+  const fightId = req.query.fightId ? parseInt(req.query.fightId as string) : undefined;
+  const startTime = parseFloat(req.query.startTime as string);
+  const endTime = parseFloat(req.query.endTime as string);
+  const eventTypes = typeof req.query.eventTypes === "string" ? req.query.eventTypes.split(",") : ["Deaths", "Casts"];
+
+  if (!code) {
+    return res.status(400).json({ error: "Report code is required" });
+  }
+
+  if (!startTime || !endTime) {
+    return res.status(400).json({
+      error: "startTime and endTime are required",
+    });
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  // Stop writing once the browser has gone away; the fetch still completes and fills the cache
+  let closed = false;
+  req.on("close", () => {
+    closed = true;
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    const result = await wclClient.getEvents(code, fightId, startTime, endTime, eventTypes, (page) => send("page", page));
+
+    // A page that failed mid-stream leaves the range incomplete; the pages already sent stay on the client
+    if (result.error) {
+      send("error", { error: result.error });
+      return;
+    }
+
+    // The final message carries every event, including debuff durations only known once the range is complete
+    send("done", {
+      events: result.events,
+      cached: result.cached,
+      lastUpdated: result.lastUpdated,
+    });
+  } catch (error: any) {
+    console.error("Error streaming events:", error);
+    send("error", { error: error.message });
+  } finally {
+    res.end();
+  }
+});
+
+// Get boss health over time for a specific fight
+app.get("/api/wcl/reports/:code/fights/:fightId/boss-health", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code, fightId } = req.params;
+    const id = parseInt(fightId);
+
+    if (!code) {
+      return res.status(400).json({ error: "Report code is required" });
+    }
+
+    if (!fightId || isNaN(id)) {
+      return res.status(400).json({ error: "Valid fight ID is required" });
+    }
+
+    const result = await wclClient.getBossHealth(code, id);
+
+    res.json({
+      series: result.series,
+      cached: result.cached,
+      lastUpdated: result.lastUpdated,
+    });
+  } catch (error: any) {
+    console.error("Error fetching boss health:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get bucketed raid damage and healing done for a specific fight
+app.get("/api/wcl/reports/:code/fights/:fightId/throughput", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code, fightId } = req.params;
+    const id = parseInt(fightId);
+
+    if (!code) {
+      return res.status(400).json({ error: "Report code is required" });
+    }
+
+    if (!fightId || isNaN(id)) {
+      return res.status(400).json({ error: "Valid fight ID is required" });
+    }
+
+    const result = await wclClient.getRaidThroughput(code, id);
+
+    res.json({
+      buckets: result.buckets,
+      bucketSize: result.bucketSize,
+      cached: result.cached,
+      lastUpdated: result.lastUpdated,
+    });
+  } catch (error: any) {
+    console.error("Error fetching raid throughput:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get the damage, healing and defensives leading up to a player's death
+app.get("/api/wcl/reports/:code/fights/:fightId/death-recap", async (req: express.Request, res: express.Response) => {
+  try {
+    const { code, fightId } = req.params;
+    const id = parseInt(fightId);
+    const playerId = parseInt(req.query.playerId as string);
+    const timestamp = parseFloat(req.query.timestamp as string);
+    // Seconds before the death to include, 10 by default
+    const seconds = Math.min(Math.max(parseInt(req.query.seconds as string) || 10, 1), 60);
+
+    if (!code) {
+      return res.status(400).json({ error: "Report code is required" });
+    }
+
+    if (!fightId || isNaN(id)) {
+      return res.status(400).json({ error: "Valid fight ID is required" });
+    }
+
+    if (isNaN(playerId) || isNaN(timestamp)) {
+      return res.status(400).json({ error: "playerId and timestamp are required" });
+    }
+
+    const recap = await wclClient.getDeathRecap(code, id, playerId, timestamp, seconds);
+
+    if (!recap) {
+      return res.status(404).json({ error: "Death recap not available" });
+    }
+
+    res.json(recap);
+  } catch (error: any) {
+    console.error("Error fetching death recap:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get encounter details by encounterID (including journalID)
 app.get("/api/wcl/encounters/:encounterID", async (req: express.Request, res: express.Response) => {
   try {
@@ -344,6 +732,101 @@ app.post("/api/admin/update-achievements", async (req: express.Request, res: exp
   }
 });
 
+// Save a review session and return its share ID with the token needed to update it
+app.post("/api/sessions", async (req: express.Request, res: express.Response) => {
+  try {
+    const validationError = validateSessionRequest(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const session = await Session.create({
+      ...getSessionUpdate(req.body),
+      shareId: createShareId(),
+      editToken: createEditToken(),
+    });
+
+    console.log(`✅ Created review session ${session.shareId}`);
+    res.json(toSessionResponse(session, true));
+  } catch (error: any) {
+    console.error("Error creating session:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Suggest the offset earlier reviews of the same report(s) and video were saved with
+app.get("/api/sessions/alignment", async (req: express.Request, res: express.Response) => {
+  try {
+    const { codes, platform, videoId } = req.query;
+
+    if (typeof codes !== "string" || typeof videoId !== "string" || (platform !== "youtube" && platform !== "twitch")) {
+      return res.status(400).json({ error: "codes, platform ('youtube' or 'twitch') and videoId are required" });
+    }
+
+    // Offsets are only comparable on the same timeline: the same reports in the same order, and the video they were saved for
+    const sessions = await Session.find({
+      reportCodes: codes.split(","),
+      "videos.0.platform": platform,
+      "videos.0.videoId": videoId,
+    });
+
+    res.json({ suggestion: suggestAlignment(sessions) });
+  } catch (error: any) {
+    console.error("Error fetching alignment suggestion:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get a shared review session
+app.get("/api/sessions/:id", async (req: express.Request, res: express.Response) => {
+  try {
+    const session = await Session.findOne({ shareId: req.params.id });
+
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json(toSessionResponse(session));
+  } catch (error: any) {
+    console.error("Error fetching session:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update a review session; only its creator holds the edit token
+app.put("/api/sessions/:id", async (req: express.Request, res: express.Response) => {
+  try {
+    const validationError = validateSessionRequest(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const session = await Session.findOne({ shareId: req.params.id });
+
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    if (req.header("X-Session-Edit-Token") !== session.editToken) {
+      return res.status(403).json({ error: "Only the creator can update this session" });
+    }
+
+    const updated = await Session.findOneAndUpdate(
+      { shareId: req.params.id },
+      {
+        $set: { ...getSessionUpdate(req.body), lastUpdated: new Date() },
+        ...(req.body.selectedFightId === null && { $unset: { selectedFightId: 1 } }),
+      },
+      { new: true }
+    );
+
+    res.json(updated ? toSessionResponse(updated, true) : null);
+  } catch (error: any) {
+    console.error("Error updating session:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get video metadata (YouTube or Twitch)
 app.get("/api/video-metadata/:platform/:videoId", async (req: express.Request, res: express.Response) => {
   try {
@@ -368,7 +851,9 @@ app.get("/api/video-metadata/:platform/:videoId", async (req: express.Request, r
       cachedVideo.lastUpdated &&
       now.getTime() - cachedVideo.lastUpdated.getTime() < CACHE_EXPIRY_DAYS * 24 * 60 * 60 * 1000 &&
       cachedVideo.duration !== undefined && // Ensure duration exists
-      cachedVideo.duration !== null;
+      cachedVideo.duration !== null &&
+      // YouTube videos cached before livestream details were fetched would keep syncing on publishedAt
+      (cachedVideo.platform !== "youtube" || cachedVideo.isLiveStream !== undefined);
 
     if (isCacheValid && cachedVideo) {
       // Parse duration if it's stored as a string (old format)
@@ -400,6 +885,8 @@ app.get("/api/video-metadata/:platform/:videoId", async (req: express.Request, r
         title: cachedVideo.title,
         description: cachedVideo.description,
         publishedAt: cachedVideo.publishedAt,
+        actualStartTime: cachedVideo.actualStartTime,
+        actualEndTime: cachedVideo.actualEndTime,
         createdAt: cachedVideo.createdAt,
         channelId: cachedVideo.channelId,
         channelTitle: cachedVideo.channelTitle,
@@ -429,6 +916,9 @@ app.get("/api/video-metadata/:platform/:videoId", async (req: express.Request, r
       title: metadata.title,
       description: metadata.description,
       publishedAt: (metadata as any).publishedAt,
+      actualStartTime: (metadata as any).actualStartTime,
+      actualEndTime: (metadata as any).actualEndTime,
+      isLiveStream: (metadata as any).isLiveStream,
       createdAt: (metadata as any).createdAt,
       channelId: (metadata as any).channelId,
       channelTitle: (metadata as any).channelTitle,
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { suggestCharacter } from "./characterMatch";
+
+const raid = [
+  { id: 1, name: "Drakthyr" },
+  { id: 2, name: "Thrall" },
+  { id: 3, name: "Al" },
+  { id: 4, name: "Jaina" },
+];
+
+describe("suggestCharacter", () => {
+  it("matches names that differ only in case, accents and punctuation", () => {
+    expect(suggestCharacter(["Dräk_Thyr"], raid)).toEqual({ actorId: 1, name: "Drakthyr", score: 1, matchedOn: "Dräk_Thyr" });
+  });
+
+  it("scores a character name decorated by the channel high", () => {
+    expect(suggestCharacter(["JainaTV"], raid)).toMatchObject({ actorId: 4, score: 0.8 });
+    expect(suggestCharacter(["xx_thrall_wow"], raid)).toMatchObject({ actorId: 2, score: 0.8 });
+  });
+
+  it("does not match very short names by containment", () => {
+    expect(suggestCharacter(["AlanPlays"], raid)).toBeNull();
+    expect(suggestCharacter(["Th"], raid)).toBeNull();
+    expect(suggestCharacter(["J"], raid)).toBeNull();
+  });
+
+  it("matches small typos by edit distance", () => {
+    expect(suggestCharacter(["Thrsll"], raid)?.actorId).toBe(2);
+    expect(suggestCharacter(["Thrsll"], raid)?.score).toBeCloseTo(5 / 6);
+  });
+
+  it("suggests nothing below the minimum score", () => {
+    expect(suggestCharacter(["SomeoneElse"], raid)).toBeNull();
+    expect(suggestCharacter(["Jaina"], [])).toBeNull();
+  });
+
+  it("takes the best match over all channel names, skipping missing ones", () => {
+    expect(suggestCharacter([undefined, "Thral", "thrall"], raid)).toMatchObject({ actorId: 2, score: 1, matchedOn: "thrall" });
+  });
+});
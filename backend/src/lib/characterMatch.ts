@@ -0,0 +1,74 @@
+// Minimum score for a channel name to be suggested as a character
+const MIN_MATCH_SCORE = 0.6;
+
+export interface CharacterSuggestion {
+  actorId: number;
+  name: string;
+  score: number; // 0..1, 1 being an exact match
+  matchedOn: string; // Channel name that matched
+}
+
+/**
+ * Lowercase and strip accents and anything that is not a letter or digit,
+ * so "Dräkthyr_TV" and "drakthyrtv" compare equal
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Score how likely a channel name belongs to a character.
+ * Streamers often decorate their character name ("xQcharTV", "char_wow"), so containment scores high
+ */
+function scoreName(channelName: string, characterName: string): number {
+  const channel = normalizeName(channelName);
+  const character = normalizeName(characterName);
+
+  if (!channel || !character) return 0;
+  if (channel === character) return 1;
+  if ((character.length >= 3 && channel.includes(character)) || (channel.length >= 3 && character.includes(channel))) return 0.8;
+
+  return 1 - levenshtein(channel, character) / Math.max(channel.length, character.length);
+}
+
+/**
+ * Suggest the character a video belongs to by fuzzy-matching the channel names
+ * (Twitch userName/userLogin, YouTube channelTitle) against the report's players
+ */
+export function suggestCharacter(channelNames: Array<string | undefined>, actors: Array<{ id: number; name: string }>): CharacterSuggestion | null {
+  let best: CharacterSuggestion | null = null;
+
+  for (const channelName of channelNames) {
+    if (!channelName) continue;
+
+    for (const actor of actors) {
+      const score = scoreName(channelName, actor.name);
+      if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+        best = { actorId: actor.id, name: actor.name, score, matchedOn: channelName };
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,55 @@
+// Raid-wide buffs, resurrections, potions and healing consumables shown on the Consumables lane
+
+export type ConsumableType = "bloodlust" | "battleRes" | "soulstone" | "potion" | "healing";
+
+export interface ConsumableDefinition {
+  spellId: number;
+  name: string;
+}
+
+export interface CatalogConsumable extends ConsumableDefinition {
+  type: ConsumableType;
+}
+
+/**
+ * Spells whose casts mark a consumable use.
+ * Bloodlust effects are matched on the cast rather than the buff so a lust shows up once instead of once per raider.
+ * Soulstones are usually placed before the pull, so they are kept apart from combat resurrections.
+ * Potions are the combat (DPS) potions only; healing potions and Healthstones are listed under healing.
+ * Potions cover the current and previous expansion.
+ */
+export const CONSUMABLE_CATALOG: Record<ConsumableType, ConsumableDefinition[]> = {
+  bloodlust: [
+    { spellId: 2825, name: "Bloodlust" },
+    { spellId: 32182, name: "Heroism" },
+    { spellId: 80353, name: "Time Warp" },
+    { spellId: 264667, name: "Primal Rage" },
+    { spellId: 390386, name: "Fury of the Aspects" },
+    { spellId: 381301, name: "Feral Hide Drums" },
+    { spellId: 444257, name: "Thunderous Drums" },
+  ],
+  battleRes: [
+    { spellId: 20484, name: "Rebirth" },
+    { spellId: 61999, name: "Raise Ally" },
+    { spellId: 391054, name: "Intercession" },
+  ],
+  soulstone: [{ spellId: 20707, name: "Soulstone" }],
+  potion: [
+    { spellId: 431932, name: "Tempered Potion" },
+    { spellId: 431914, name: "Potion of Unwavering Focus" },
+    { spellId: 371028, name: "Elemental Potion of Ultimate Power" },
+    { spellId: 371024, name: "Elemental Potion of Power" },
+  ],
+  healing: [
+    { spellId: 431416, name: "Algari Healing Potion" },
+    { spellId: 370511, name: "Refreshing Healing Potion" },
+    { spellId: 6262, name: "Healthstone" },
+  ],
+};
+
+// Flattened lookup by spell ID
+export const CONSUMABLES_BY_SPELL_ID = new Map<number, CatalogConsumable>(
+  (Object.entries(CONSUMABLE_CATALOG) as [ConsumableType, ConsumableDefinition[]][]).flatMap(([type, consumables]) =>
+    consumables.map((consumable) => [consumable.spellId, { ...consumable, type }] as const)
+  )
+);
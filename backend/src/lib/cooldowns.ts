@@ -0,0 +1,112 @@
+// Curated catalog of player cooldowns shown on the Cooldowns lane
+
+export type CooldownType = "personal" | "external" | "raid";
+
+export interface CooldownDefinition {
+  spellId: number;
+  name: string;
+  type: CooldownType;
+  duration: number; // Effect duration in seconds (0 for instant effects)
+}
+
+export interface CatalogCooldown extends CooldownDefinition {
+  className: string;
+}
+
+/**
+ * Personal defensives, externals and raid cooldowns per class.
+ * Keyed by the class name WCL uses as the actor subType (e.g. "DeathKnight").
+ * Durations are the baseline values without talents that extend them.
+ */
+export const COOLDOWN_CATALOG: Record<string, CooldownDefinition[]> = {
+  DeathKnight: [
+    { spellId: 48792, name: "Icebound Fortitude", type: "personal", duration: 8 },
+    { spellId: 48707, name: "Anti-Magic Shell", type: "personal", duration: 5 },
+    { spellId: 55233, name: "Vampiric Blood", type: "personal", duration: 10 },
+    { spellId: 49039, name: "Lichborne", type: "personal", duration: 10 },
+    { spellId: 51052, name: "Anti-Magic Zone", type: "raid", duration: 8 },
+  ],
+  DemonHunter: [
+    { spellId: 198589, name: "Blur", type: "personal", duration: 10 },
+    { spellId: 196555, name: "Netherwalk", type: "personal", duration: 6 },
+    { spellId: 196718, name: "Darkness", type: "raid", duration: 8 },
+  ],
+  Druid: [
+    { spellId: 22812, name: "Barkskin", type: "personal", duration: 8 },
+    { spellId: 61336, name: "Survival Instincts", type: "personal", duration: 6 },
+    { spellId: 102342, name: "Ironbark", type: "external", duration: 12 },
+    { spellId: 740, name: "Tranquility", type: "raid", duration: 6 },
+    { spellId: 106898, name: "Stampeding Roar", type: "raid", duration: 8 },
+  ],
+  Evoker: [
+    { spellId: 363916, name: "Obsidian Scales", type: "personal", duration: 12 },
+    { spellId: 374348, name: "Renewing Blaze", type: "personal", duration: 8 },
+    { spellId: 357170, name: "Time Dilation", type: "external", duration: 8 },
+    { spellId: 363534, name: "Rewind", type: "raid", duration: 5 },
+    { spellId: 374227, name: "Zephyr", type: "raid", duration: 8 },
+  ],
+  Hunter: [
+    { spellId: 186265, name: "Aspect of the Turtle", type: "personal", duration: 8 },
+    { spellId: 264735, name: "Survival of the Fittest", type: "personal", duration: 6 },
+    { spellId: 109304, name: "Exhilaration", type: "personal", duration: 0 },
+  ],
+  Mage: [
+    { spellId: 45438, name: "Ice Block", type: "personal", duration: 10 },
+    { spellId: 342245, name: "Alter Time", type: "personal", duration: 10 },
+    { spellId: 110959, name: "Greater Invisibility", type: "personal", duration: 3 },
+  ],
+  Monk: [
+    { spellId: 115203, name: "Fortifying Brew", type: "personal", duration: 15 },
+    { spellId: 122783, name: "Diffuse Magic", type: "personal", duration: 6 },
+    { spellId: 122278, name: "Dampen Harm", type: "personal", duration: 10 },
+    { spellId: 116849, name: "Life Cocoon", type: "external", duration: 12 },
+    { spellId: 115310, name: "Revival", type: "raid", duration: 0 },
+    { spellId: 388615, name: "Restoral", type: "raid", duration: 0 },
+  ],
+  Paladin: [
+    { spellId: 642, name: "Divine Shield", type: "personal", duration: 8 },
+    { spellId: 498, name: "Divine Protection", type: "personal", duration: 8 },
+    { spellId: 31850, name: "Ardent Defender", type: "personal", duration: 8 },
+    { spellId: 86659, name: "Guardian of Ancient Kings", type: "personal", duration: 8 },
+    { spellId: 184662, name: "Shield of Vengeance", type: "personal", duration: 10 },
+    { spellId: 6940, name: "Blessing of Sacrifice", type: "external", duration: 12 },
+    { spellId: 1022, name: "Blessing of Protection", type: "external", duration: 10 },
+    { spellId: 31821, name: "Aura Mastery", type: "raid", duration: 8 },
+  ],
+  Priest: [
+    { spellId: 47585, name: "Dispersion", type: "personal", duration: 6 },
+    { spellId: 19236, name: "Desperate Prayer", type: "personal", duration: 10 },
+    { spellId: 33206, name: "Pain Suppression", type: "external", duration: 8 },
+    { spellId: 47788, name: "Guardian Spirit", type: "external", duration: 10 },
+    { spellId: 62618, name: "Power Word: Barrier", type: "raid", duration: 10 },
+    { spellId: 64843, name: "Divine Hymn", type: "raid", duration: 8 },
+    { spellId: 15286, name: "Vampiric Embrace", type: "raid", duration: 15 },
+  ],
+  Rogue: [
+    { spellId: 31224, name: "Cloak of Shadows", type: "personal", duration: 5 },
+    { spellId: 5277, name: "Evasion", type: "personal", duration: 10 },
+    { spellId: 1966, name: "Feint", type: "personal", duration: 6 },
+  ],
+  Shaman: [
+    { spellId: 108271, name: "Astral Shift", type: "personal", duration: 12 },
+    { spellId: 98008, name: "Spirit Link Totem", type: "raid", duration: 6 },
+    { spellId: 108280, name: "Healing Tide Totem", type: "raid", duration: 10 },
+    { spellId: 108281, name: "Ancestral Guidance", type: "raid", duration: 10 },
+  ],
+  Warlock: [
+    { spellId: 104773, name: "Unending Resolve", type: "personal", duration: 8 },
+    { spellId: 108416, name: "Dark Pact", type: "personal", duration: 20 },
+  ],
+  Warrior: [
+    { spellId: 871, name: "Shield Wall", type: "personal", duration: 8 },
+    { spellId: 118038, name: "Die by the Sword", type: "personal", duration: 8 },
+    { spellId: 184364, name: "Enraged Regeneration", type: "personal", duration: 8 },
+    { spellId: 23920, name: "Spell Reflection", type: "personal", duration: 5 },
+    { spellId: 97462, name: "Rallying Cry", type: "raid", duration: 10 },
+  ],
+};
+
+// Flattened lookup by spell ID
+export const COOLDOWNS_BY_SPELL_ID = new Map<number, CatalogCooldown>(
+  Object.entries(COOLDOWN_CATALOG).flatMap(([className, cooldowns]) => cooldowns.map((cooldown) => [cooldown.spellId, { ...cooldown, className }] as const))
+);
@@ -0,0 +1,112 @@
+import { WarcraftLogsClient, LiveReportUpdate } from "./wcl";
+import { wclUserContext } from "./wclSession";
+
+// How often followed reports are refetched from WCL
+const LIVE_POLL_INTERVAL_MS = 30 * 1000;
+
+type LiveReportListener = (update: LiveReportUpdate) => void;
+
+interface FollowedReport {
+  reportCode: string;
+  sessionId?: string; // WCL login the report is polled as, none for app credentials
+  listeners: Map<LiveReportListener, number | undefined>; // Fights each follower already has; unknown counts are taken from the next poll
+  timer: NodeJS.Timeout;
+  report?: LiveReportUpdate["report"]; // Result of the latest poll
+  polling: boolean; // A poll is still in flight, skip overlapping ones
+}
+
+/**
+ * Polls in-progress reports while at least one timeline page follows them.
+ * Pages of the same WCL login (or all anonymous pages) share a single WCL request per interval;
+ * a report is never polled with one user's token on behalf of another
+ */
+export class LiveReportWatcher {
+  private wclClient: WarcraftLogsClient;
+  private reports = new Map<string, FollowedReport>();
+
+  constructor(wclClient: WarcraftLogsClient) {
+    this.wclClient = wclClient;
+  }
+
+  /**
+   * Call the listener whenever the report has more fights than the follower has seen, polling as the WCL login of the current request.
+   * knownFightCount is how many fights the page already shows, which may come from an older cached summary.
+   * Returns a function that stops following; polling stops with the last listener
+   */
+  follow(reportCode: string, knownFightCount: number | undefined, listener: LiveReportListener): () => void {
+    const sessionId = wclUserContext.getStore()?.sessionId;
+    const key = `${reportCode}:${sessionId || ""}`;
+    let followed = this.reports.get(key);
+
+    if (!followed) {
+      console.log(`Following live report ${reportCode}`);
+      followed = {
+        reportCode,
+        sessionId,
+        listeners: new Map(),
+        timer: setInterval(() => this.poll(key), LIVE_POLL_INTERVAL_MS),
+        polling: false,
+      };
+      this.reports.set(key, followed);
+
+      // Poll right away so pulls missing from the page's (possibly cached) report arrive without waiting an interval
+      this.poll(key);
+    }
+
+    const report = followed;
+    report.listeners.set(listener, knownFightCount);
+
+    // A page joining a report that is already polled catches up on the latest result
+    this.notify(report, listener);
+
+    return () => {
+      report.listeners.delete(listener);
+
+      if (report.listeners.size === 0) {
+        console.log(`Stopped following live report ${reportCode}`);
+        clearInterval(report.timer);
+        this.reports.delete(key);
+      }
+    };
+  }
+
+  private async poll(key: string): Promise<void> {
+    const followed = this.reports.get(key);
+    if (!followed || followed.polling) {
+      return;
+    }
+
+    followed.polling = true;
+    try {
+      const pollReport = () => this.wclClient.pollLiveReport(followed.reportCode);
+
+      // Timers keep the request context they were created in; poll in the follower's own scope instead
+      const report = await (followed.sessionId ? wclUserContext.run({ sessionId: followed.sessionId }, pollReport) : wclUserContext.exit(pollReport));
+
+      if (!report) {
+        return;
+      }
+
+      followed.report = report;
+      [...followed.listeners.keys()].forEach((listener) => this.notify(followed, listener));
+    } finally {
+      followed.polling = false;
+    }
+  }
+
+  // Send a follower the fights of the latest poll it has not seen yet
+  private notify(followed: FollowedReport, listener: LiveReportListener): void {
+    const { report } = followed;
+    if (!report) {
+      return;
+    }
+
+    const knownFightCount = followed.listeners.get(listener);
+    followed.listeners.set(listener, report.fights.length);
+
+    if (knownFightCount !== undefined && report.fights.length > knownFightCount) {
+      console.log(`✅ ${report.fights.length - knownFightCount} new fight(s) in live report ${followed.reportCode}`);
+      listener({ report, newFights: report.fights.slice(knownFightCount) });
+    }
+  }
+}
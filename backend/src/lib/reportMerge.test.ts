@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import { mergeReports } from "./reportMerge";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+
+const MINUTE = 60 * 1000;
+const NIGHT_START = Date.UTC(2026, 0, 1, 19, 0);
+
+// Fights and phases are given in minutes from their report's start
+const report = (code: string, startMinute: number, fights: Array<{ id: number; start: number; end: number; encounterID?: number; isTrash?: boolean; phases?: number[] }>) => ({
+  code,
+  title: `Raid ${code}`,
+  startTime: NIGHT_START + startMinute * MINUTE,
+  endTime: NIGHT_START + (startMinute + 120) * MINUTE,
+  fights: fights.map(({ id, start, end, encounterID, isTrash, phases }) => ({
+    id,
+    name: `Fight ${id}`,
+    startTime: start * MINUTE,
+    endTime: end * MINUTE,
+    encounterID,
+    isTrash,
+    phaseTransitions: phases?.map((phase, index) => ({ id: index + 1, startTime: phase * MINUTE })),
+  })),
+});
+
+describe("mergeReports", () => {
+  it("shifts the fights of later reports by their start difference", () => {
+    const merged = mergeReports([report("first", 0, [{ id: 1, start: 5, end: 10, encounterID: 100 }]), report("relog", 30, [{ id: 1, start: 5, end: 10, encounterID: 101 }])]);
+
+    expect(merged.startTime).toBe(NIGHT_START);
+    expect(merged.endTime).toBe(NIGHT_START + 150 * MINUTE);
+    expect(merged.reports.map((r) => r.offset)).toEqual([0, 30 * MINUTE]);
+    expect(merged.fights.map((f) => [f.startTime, f.endTime])).toEqual([
+      [5 * MINUTE, 10 * MINUTE],
+      [35 * MINUTE, 40 * MINUTE],
+    ]);
+    expect(merged.fights[1]).toMatchObject({ reportCode: "relog", reportFightId: 1, reportOffset: 30 * MINUTE });
+  });
+
+  it("starts the axis at the earliest report even when it is not the primary one", () => {
+    const merged = mergeReports([report("primary", 20, [{ id: 1, start: 0, end: 5, encounterID: 100 }]), report("early", 0, [{ id: 7, start: 0, end: 5, encounterID: 200 }])]);
+
+    expect(merged.code).toBe("primary,early");
+    expect(merged.reports.map((r) => r.offset)).toEqual([20 * MINUTE, 0]);
+    expect(merged.fights.map((f) => f.reportCode)).toEqual(["early", "primary"]);
+  });
+
+  it("renumbers fights in time order", () => {
+    const merged = mergeReports([report("a", 0, [{ id: 4, start: 60, end: 65, encounterID: 100 }]), report("b", 0, [{ id: 9, start: 10, end: 15, encounterID: 200 }])]);
+
+    expect(merged.fights.map((f) => [f.id, f.reportFightId])).toEqual([
+      [1, 9],
+      [2, 4],
+    ]);
+  });
+
+  it("shifts phase transitions with their fight", () => {
+    const merged = mergeReports([report("a", 0, []), report("b", 10, [{ id: 1, start: 0, end: 5, encounterID: 100, phases: [0, 2] }])]);
+
+    expect(merged.fights[0].phaseTransitions).toEqual([
+      { id: 1, startTime: 10 * MINUTE },
+      { id: 2, startTime: 12 * MINUTE },
+    ]);
+  });
+
+  it("keeps the primary report's copy of a pull logged twice", () => {
+    const merged = mergeReports([report("primary", 0, [{ id: 3, start: 30, end: 36, encounterID: 100 }]), report("second", 10, [{ id: 1, start: 20, end: 26, encounterID: 100 }])]);
+
+    expect(merged.fights).toHaveLength(1);
+    expect(merged.fights[0]).toMatchObject({ reportCode: "primary", reportFightId: 3 });
+  });
+
+  it("keeps overlapping fights of different encounters or only briefly overlapping pulls", () => {
+    const merged = mergeReports([
+      report("a", 0, [
+        { id: 1, start: 0, end: 10, encounterID: 100 },
+        { id: 2, start: 20, end: 30, encounterID: 100 },
+      ]),
+      report("b", 0, [
+        { id: 1, start: 0, end: 10, encounterID: 200 },
+        { id: 2, start: 28, end: 38, encounterID: 100 },
+      ]),
+    ]);
+
+    expect(merged.fights).toHaveLength(4);
+  });
+
+  it("does not treat trash and a boss pull as the same fight", () => {
+    const merged = mergeReports([report("a", 0, [{ id: 1, start: 0, end: 10, isTrash: true }]), report("b", 0, [{ id: 1, start: 0, end: 10 }])]);
+
+    expect(merged.fights).toHaveLength(2);
+  });
+});
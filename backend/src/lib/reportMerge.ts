@@ -0,0 +1,91 @@
+// Combining several WCL reports of one raid night (crash, relog, two loggers) into a single session
+
+// Minimum share of the shorter fight two fights must overlap to be the same pull logged twice
+const DUPLICATE_OVERLAP_RATIO = 0.5;
+
+interface MergeableFight {
+  id: number;
+  name: string;
+  startTime: number; // Relative to its report's start in ms
+  endTime: number;
+  encounterID?: number;
+  isTrash?: boolean;
+  phaseTransitions?: Array<{ id: number; startTime: number }>;
+}
+
+interface MergeableReport<F extends MergeableFight> {
+  code: string;
+  title: string;
+  startTime: number; // Wall-clock ms
+  endTime: number;
+  fights: F[];
+}
+
+export type MergedFight<F extends MergeableFight> = F & {
+  reportCode: string;
+  reportFightId: number; // Fight ID within its own report
+  reportOffset: number; // ms from the session start to its report's start
+};
+
+export interface MergedReport<F extends MergeableFight> {
+  code: string; // Comma-separated report codes, primary first
+  title: string;
+  startTime: number;
+  endTime: number;
+  reports: Array<{ code: string; title: string; startTime: number; endTime: number; offset: number }>;
+  fights: MergedFight<F>[];
+}
+
+// Whether two fights (already on the session axis) are the same pull logged by two people
+const isSameFight = (a: MergeableFight, b: MergeableFight) => {
+  if (a.encounterID !== b.encounterID || !!a.isTrash !== !!b.isTrash) return false;
+
+  const overlap = Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime);
+  const shorter = Math.min(a.endTime - a.startTime, b.endTime - b.startTime);
+  return overlap > 0 && overlap >= shorter * DUPLICATE_OVERLAP_RATIO;
+};
+
+/**
+ * Place the fights of several reports on one wall-clock axis starting at the earliest report.
+ * Reports are taken in order, so a pull logged twice keeps the copy of the earlier (primary) report.
+ * Merged fights get new sequential IDs; reportCode and reportFightId point back at the original
+ */
+export function mergeReports<F extends MergeableFight>(reports: MergeableReport<F>[]): MergedReport<F> {
+  const startTime = Math.min(...reports.map((report) => report.startTime));
+  const endTime = Math.max(...reports.map((report) => report.endTime));
+  const fights: MergedFight<F>[] = [];
+
+  for (const report of reports) {
+    const offset = report.startTime - startTime;
+
+    for (const fight of report.fights) {
+      const merged: MergedFight<F> = {
+        ...fight,
+        startTime: fight.startTime + offset,
+        endTime: fight.endTime + offset,
+        phaseTransitions: fight.phaseTransitions?.map((transition) => ({ ...transition, startTime: transition.startTime + offset })),
+        reportCode: report.code,
+        reportFightId: fight.id,
+        reportOffset: offset,
+      };
+
+      if (fights.some((kept) => isSameFight(kept, merged))) {
+        console.log(`Skipping fight ${fight.id} of ${report.code}, already logged in another report`);
+        continue;
+      }
+
+      fights.push(merged);
+    }
+  }
+
+  fights.sort((a, b) => a.startTime - b.startTime);
+
+  return {
+    code: reports.map((report) => report.code).join(","),
+    title: reports.map((report) => report.title).join(" + "),
+    startTime,
+    endTime,
+    reports: reports.map((report) => ({ code: report.code, title: report.title, startTime: report.startTime, endTime: report.endTime, offset: report.startTime - startTime })),
+    fights: fights.map((fight, index) => ({ ...fight, id: index + 1 })),
+  };
+}
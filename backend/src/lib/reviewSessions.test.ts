@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { validateSessionRequest, getSessionUpdate, getSessionOffset, suggestAlignment } from "./reviewSessions";
+import { SaveSessionRequest } from "../types/index";
+
+const validSession: SaveSessionRequest = {
+  reportCodes: ["AbCd1234"],
+  videos: [{ platform: "youtube", videoId: "dQw4w9WgXcQ" }],
+  offset: -42.5,
+  syncAnchors: [{ videoTime: 10, wclTime: 20 }],
+  selectedFightId: 3,
+  notes: "Wipe on P2, soak missed",
+};
+
+describe("validateSessionRequest", () => {
+  it("accepts a complete session", () => {
+    expect(validateSessionRequest(validSession, true)).toBeNull();
+  });
+
+  it("requires reports and videos to create a session but not to update one", () => {
+    expect(validateSessionRequest({ offset: 1 }, true)).toBe("reportCodes and videos are required");
+    expect(validateSessionRequest({ offset: 1 }, false)).toBeNull();
+  });
+
+  it("rejects report codes that are empty or not WCL codes", () => {
+    expect(validateSessionRequest({ ...validSession, reportCodes: [] }, true)).toMatch(/^reportCodes/);
+    expect(validateSessionRequest({ ...validSession, reportCodes: ["../etc"] }, true)).toMatch(/^reportCodes/);
+  });
+
+  it("rejects unknown video platforms", () => {
+    const videos = [{ platform: "vimeo", videoId: "123" }] as unknown as SaveSessionRequest["videos"];
+    expect(validateSessionRequest({ ...validSession, videos }, true)).toMatch(/^videos/);
+  });
+
+  it("rejects offsets that are not finite numbers", () => {
+    expect(validateSessionRequest({ offset: NaN }, false)).toMatch(/^offset/);
+    expect(validateSessionRequest({ offset: "12" as unknown as number }, false)).toMatch(/^offset/);
+  });
+
+  it("rejects malformed and too many sync anchors", () => {
+    expect(validateSessionRequest({ syncAnchors: [{ videoTime: 1 } as never] }, false)).toMatch(/^syncAnchors/);
+
+    const syncAnchors = Array.from({ length: 51 }, (_, i) => ({ videoTime: i, wclTime: i }));
+    expect(validateSessionRequest({ syncAnchors }, false)).toMatch(/^syncAnchors/);
+  });
+
+  it("accepts a null fight to clear the selection but not a fractional one", () => {
+    expect(validateSessionRequest({ selectedFightId: null }, false)).toBeNull();
+    expect(validateSessionRequest({ selectedFightId: 1.5 }, false)).toMatch(/^selectedFightId/);
+  });
+
+  it("rejects notes over the length limit", () => {
+    expect(validateSessionRequest({ notes: "x".repeat(20001) }, false)).toMatch(/^notes/);
+  });
+
+  it("checks the synced flag and editor ID", () => {
+    expect(validateSessionRequest({ synced: "yes" as unknown as boolean }, false)).toMatch(/^synced/);
+    expect(validateSessionRequest({ editorId: "not an id!" }, false)).toMatch(/^editorId/);
+    expect(validateSessionRequest({ synced: true, editorId: "0b0e2f6c-7d1a-4c55-9a0e-3f2b8c1d9e4a" }, false)).toBeNull();
+  });
+});
+
+describe("getSessionUpdate", () => {
+  it("keeps only known fields", () => {
+    const update = getSessionUpdate({ ...validSession, editToken: "stolen", shareId: "taken" } as SaveSessionRequest);
+
+    expect(update).not.toHaveProperty("editToken");
+    expect(update).not.toHaveProperty("shareId");
+    expect(update).toMatchObject({ offset: -42.5, selectedFightId: 3 });
+  });
+
+  it("leaves a null fight for the caller to unset", () => {
+    expect(getSessionUpdate({ selectedFightId: null })).not.toHaveProperty("selectedFightId");
+  });
+
+  it("only ever sets the synced flag", () => {
+    expect(getSessionUpdate({ synced: true })).toEqual({ synced: true });
+    expect(getSessionUpdate({ synced: false })).not.toHaveProperty("synced");
+  });
+});
+
+let sessionCount = 0;
+
+const savedSession = (offset: number, options: { synced?: boolean; editorId?: string; syncAnchors?: { videoTime: number; wclTime: number }[]; day?: number } = {}) => ({
+  shareId: `session${++sessionCount}`,
+  editorId: options.editorId,
+  synced: options.synced ?? true,
+  offset,
+  syncAnchors: options.syncAnchors || [],
+  lastUpdated: new Date(2026, 0, options.day || 1),
+});
+
+describe("getSessionOffset", () => {
+  it("uses the offset without anchors", () => {
+    expect(getSessionOffset(savedSession(12))).toBe(12);
+  });
+
+  it("takes the median anchor offset, ignoring the stored offset", () => {
+    const odd = [
+      { videoTime: 0, wclTime: 10 },
+      { videoTime: 100, wclTime: 130 },
+      { videoTime: 200, wclTime: 215 },
+    ];
+    expect(getSessionOffset(savedSession(0, { syncAnchors: odd }))).toBe(15);
+    expect(getSessionOffset(savedSession(0, { syncAnchors: odd.slice(0, 2) }))).toBe(20);
+  });
+});
+
+describe("suggestAlignment", () => {
+  it("suggests nothing without synced sessions", () => {
+    expect(suggestAlignment([])).toBeNull();
+    expect(suggestAlignment([savedSession(30, { synced: false }), savedSession(0, { synced: false })])).toBeNull();
+  });
+
+  it("picks the offset most reviewers agree on within the tolerance", () => {
+    const suggestion = suggestAlignment([savedSession(10, { day: 3 }), savedSession(30.4, { day: 1 }), savedSession(29.8, { day: 2 })]);
+
+    expect(suggestion).toMatchObject({ offset: 29.8, agreeingReviewers: 2, totalReviewers: 3 });
+  });
+
+  it("prefers the most recently saved offset on a tie", () => {
+    expect(suggestAlignment([savedSession(10, { day: 1 }), savedSession(50, { day: 2 })])?.offset).toBe(50);
+  });
+
+  it("counts each reviewer once, with their newest session", () => {
+    const suggestion = suggestAlignment([
+      savedSession(10, { editorId: "a", day: 1 }),
+      savedSession(10, { editorId: "a", day: 2 }),
+      savedSession(10, { editorId: "a", day: 3 }),
+      savedSession(50, { editorId: "b", day: 1 }),
+      savedSession(50, { editorId: "c", day: 1 }),
+    ]);
+
+    expect(suggestion).toMatchObject({ offset: 50, agreeingReviewers: 2, totalReviewers: 3 });
+  });
+
+  it("ignores unsynced sessions and counts anchored ones by their anchors", () => {
+    const suggestion = suggestAlignment([
+      savedSession(0, { synced: false }),
+      savedSession(0, { synced: false }),
+      savedSession(0, { syncAnchors: [{ videoTime: 100, wclTime: 120 }] }),
+      savedSession(20),
+    ]);
+
+    expect(suggestion).toMatchObject({ offset: 20, agreeingReviewers: 2, totalReviewers: 2 });
+  });
+});
@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import { SaveSessionRequest, SessionResponse, ISessionVideo, ISyncAnchor, AlignmentSuggestion } from "../types/index";
+import { SessionDocument } from "../models/index";
+
+// 6 random bytes give 8-character share IDs for /s/:id links
+const SHARE_ID_BYTES = 6;
+const MAX_NOTES_LENGTH = 20000;
+const MAX_SYNC_ANCHORS = 50;
+
+// Saved offsets closer than this count as the same alignment
+const ALIGNMENT_TOLERANCE_SEC = 1;
+
+export function createShareId(): string {
+  return crypto.randomBytes(SHARE_ID_BYTES).toString("base64url");
+}
+
+export function createEditToken(): string {
+  return crypto.randomBytes(24).toString("hex");
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isSessionVideo = (video: any): video is ISessionVideo =>
+  !!video &&
+  (video.platform === "youtube" || video.platform === "twitch") &&
+  typeof video.videoId === "string" &&
+  video.videoId.length > 0 &&
+  (video.startSeconds === undefined || isNumber(video.startSeconds));
+
+const isSyncAnchor = (anchor: any): anchor is ISyncAnchor => !!anchor && isNumber(anchor.videoTime) && isNumber(anchor.wclTime);
+
+/**
+ * Validate the fields of a create or update body, returning an error message for the 400 response or null.
+ * Creating a session requires the reports and videos; updates may send any subset
+ */
+export function validateSessionRequest(body: SaveSessionRequest, isCreate: boolean): string | null {
+  if (isCreate && (body.reportCodes === undefined || body.videos === undefined)) {
+    return "reportCodes and videos are required";
+  }
+
+  if (body.reportCodes !== undefined) {
+    if (!Array.isArray(body.reportCodes) || body.reportCodes.length === 0 || !body.reportCodes.every((code) => typeof code === "string" && /^[a-zA-Z0-9]+$/.test(code))) {
+      return "reportCodes must be a non-empty list of WCL report codes";
+    }
+  }
+
+  if (body.videos !== undefined && (!Array.isArray(body.videos) || body.videos.length === 0 || !body.videos.every(isSessionVideo))) {
+    return "videos must be a non-empty list of { platform: 'youtube' | 'twitch', videoId }";
+  }
+
+  if (body.offset !== undefined && !isNumber(body.offset)) {
+    return "offset must be a number of seconds";
+  }
+
+  if (body.syncAnchors !== undefined && (!Array.isArray(body.syncAnchors) || body.syncAnchors.length > MAX_SYNC_ANCHORS || !body.syncAnchors.every(isSyncAnchor))) {
+    return `syncAnchors must be a list of at most ${MAX_SYNC_ANCHORS} { videoTime, wclTime }`;
+  }
+
+  if (body.selectedFightId !== undefined && body.selectedFightId !== null && !Number.isInteger(body.selectedFightId)) {
+    return "selectedFightId must be a fight ID or null";
+  }
+
+  if (body.notes !== undefined && (typeof body.notes !== "string" || body.notes.length > MAX_NOTES_LENGTH)) {
+    return `notes must be text of at most ${MAX_NOTES_LENGTH} characters`;
+  }
+
+  if (body.synced !== undefined && typeof body.synced !== "boolean") {
+    return "synced must be a boolean";
+  }
+
+  if (body.editorId !== undefined && (typeof body.editorId !== "string" || !/^[a-zA-Z0-9-]{1,64}$/.test(body.editorId))) {
+    return "editorId must be an ID of at most 64 letters, digits or dashes";
+  }
+
+  return null;
+}
+
+/**
+ * Fields of a validated body to write, dropping unknown ones; a null selectedFightId is left to the caller to unset.
+ * synced is only ever set, so saving an unchanged session does not forget that it was synced
+ */
+export function getSessionUpdate(body: SaveSessionRequest) {
+  return {
+    ...(body.reportCodes !== undefined && { reportCodes: body.reportCodes }),
+    ...(body.videos !== undefined && { videos: body.videos.map(({ platform, videoId, startSeconds }) => ({ platform, videoId, startSeconds })) }),
+    ...(body.offset !== undefined && { offset: body.offset }),
+    ...(body.syncAnchors !== undefined && { syncAnchors: body.syncAnchors.map(({ videoTime, wclTime }) => ({ videoTime, wclTime })) }),
+    ...(isNumber(body.selectedFightId) && { selectedFightId: body.selectedFightId }),
+    ...(body.notes !== undefined && { notes: body.notes }),
+    ...(body.synced === true && { synced: true }),
+    ...(body.editorId !== undefined && { editorId: body.editorId }),
+  };
+}
+
+type AlignmentSession = Pick<SessionDocument, "shareId" | "editorId" | "synced" | "offset" | "syncAnchors" | "lastUpdated">;
+
+/**
+ * Offset a session was watched with; with anchors, the median of the anchors' offsets
+ */
+export function getSessionOffset(session: Pick<SessionDocument, "offset" | "syncAnchors">): number {
+  if (session.syncAnchors.length === 0) {
+    return session.offset;
+  }
+
+  const offsets = session.syncAnchors.map((anchor) => anchor.wclTime - anchor.videoTime).sort((a, b) => a - b);
+  const middle = Math.floor(offsets.length / 2);
+
+  return offsets.length % 2 === 1 ? offsets[middle] : (offsets[middle - 1] + offsets[middle]) / 2;
+}
+
+/**
+ * Pick the offset most reviewers agree on, the most recently saved one on a tie.
+ * Only synced sessions count, and each reviewer counts once with their newest session
+ */
+export function suggestAlignment(sessions: AlignmentSession[]): AlignmentSuggestion | null {
+  const newestFirst = sessions.filter((session) => session.synced).sort((a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime());
+
+  // Sessions saved before editor IDs existed count as their own reviewer
+  const reviews = new Map<string, { offset: number; lastUpdated: Date }>();
+  newestFirst.forEach((session) => {
+    const reviewer = session.editorId || session.shareId;
+    if (!reviews.has(reviewer)) {
+      reviews.set(reviewer, { offset: getSessionOffset(session), lastUpdated: session.lastUpdated });
+    }
+  });
+
+  const latestReviews = [...reviews.values()];
+  let best: AlignmentSuggestion | null = null;
+
+  latestReviews.forEach((review) => {
+    const agreeingReviewers = latestReviews.filter((other) => Math.abs(other.offset - review.offset) <= ALIGNMENT_TOLERANCE_SEC).length;
+
+    if (!best || agreeingReviewers > best.agreeingReviewers) {
+      best = { offset: review.offset, agreeingReviewers, totalReviewers: latestReviews.length, lastUpdated: review.lastUpdated };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Session as returned by the API; the edit token is only included for its creator
+ */
+export function toSessionResponse(session: SessionDocument, includeEditToken = false): SessionResponse {
+  return {
+    shareId: session.shareId,
+    reportCodes: session.reportCodes,
+    videos: session.videos,
+    offset: session.offset,
+    syncAnchors: session.syncAnchors,
+    selectedFightId: session.selectedFightId,
+    notes: session.notes,
+    synced: session.synced,
+    createdAt: session.createdAt,
+    lastUpdated: session.lastUpdated,
+    ...(includeEditToken && { editToken: session.editToken }),
+  };
+}
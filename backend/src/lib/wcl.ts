@@ -1,10 +1,35 @@
 import axios from "axios";
-import { Report, CachedEvents, ReportDocument, CachedEventsDocument, AuthToken } from "../models/index";
+import {
+  Report,
+  CachedEvents,
+  CachedBossHealth,
+  CachedRaidThroughput,
+  CachedReportOverview,
+  ReportDocument,
+  CachedEventsDocument,
+  AuthToken,
+  EventType,
+  WclUserSession,
+  WclUserSessionDocument,
+} from "../models/index";
+import { COOLDOWNS_BY_SPELL_ID, CooldownType } from "./cooldowns";
+import { CONSUMABLES_BY_SPELL_ID, ConsumableType } from "./consumables";
+import { wclUserContext, createSessionId } from "./wclSession";
 
 interface WCLAccessTokenResponse {
   access_token: string;
   token_type: string;
   expires_in: number;
+  refresh_token?: string; // Authorization code grant only
+}
+
+interface WCLCurrentUserData {
+  userData: {
+    currentUser: {
+      id: number;
+      name: string;
+    } | null;
+  };
 }
 
 interface WCLGraphQLResponse<T> {
@@ -29,24 +54,43 @@ interface WCLReportData {
         kill?: boolean;
         fightPercentage?: number;
         lastPhase?: number;
+        phaseTransitions?: Array<{ id: number; startTime: number }> | null;
       }>;
+      phases?: Array<{
+        encounterID: number;
+        phases: Array<{ id: number; name: string; isIntermission?: boolean }>;
+      }> | null;
     } | null;
   } | null;
 }
 
+interface PhaseTransition {
+  id: number;
+  startTime: number; // Relative to report start in ms, like fight times
+  name?: string;
+  isIntermission?: boolean;
+}
+
+interface WCLEvent {
+  timestamp: number;
+  type: string;
+  sourceID?: number;
+  targetID?: number;
+  abilityGameID?: number;
+  extraAbilityGameID?: number; // Interrupted spell or dispelled aura
+  amount?: number;
+  overkill?: number;
+  overheal?: number;
+  hitPoints?: number; // Target health percent after the event, only with includeResources
+  ability?: { name: string; guid: number; type: number };
+  data?: any;
+}
+
 interface WCLEventsResponse {
   reportData: {
     report: {
       events: {
-        data: Array<{
-          timestamp: number;
-          type: string;
-          sourceID?: number;
-          targetID?: number;
-          abilityGameID?: number;
-          ability?: { name: string; guid: number; type: number };
-          data?: any;
-        }>;
+        data: WCLEvent[];
         nextPageTimestamp?: number;
       } | null;
     } | null;
@@ -69,9 +113,10 @@ interface SimpleReport {
     kill?: boolean;
     fightPercentage?: number;
     lastPhase?: number;
+    phaseTransitions?: PhaseTransition[];
+    isTrash?: boolean; // Pull without an encounter (encounterID missing or 0)
   }>;
   lastUpdated: Date;
-  lastFightCount: number;
 }
 
 interface EnhancedSimpleReport extends Omit<SimpleReport, "fights"> {
@@ -88,6 +133,8 @@ interface EnhancedSimpleReport extends Omit<SimpleReport, "fights"> {
     kill?: boolean;
     fightPercentage?: number;
     lastPhase?: number;
+    phaseTransitions?: PhaseTransition[];
+    isTrash?: boolean;
   }>;
 }
 
@@ -112,18 +159,208 @@ interface SimpleEvent {
   reportCode: string;
   fightId: number;
   timestamp: number;
-  type: "Deaths" | "Casts";
+  type: EventType;
   sourceID?: number;
   targetID?: number;
   abilityGameID?: number;
+  extraAbilityGameID?: number;
+  amount?: number;
+  overkill?: number;
+  duration?: number; // Effect duration in milliseconds
+  cooldownType?: CooldownType;
+  consumableType?: ConsumableType;
   ability?: { name: string; guid: number; type: number };
   data?: any;
   // Enhanced data
   abilityInfo?: AbilityInfo;
+  extraAbilityInfo?: AbilityInfo;
   sourceInfo?: ActorInfo;
   targetInfo?: ActorInfo;
 }
 
+// Result of refetching a report that is still being logged
+export interface LiveReportUpdate {
+  report: EnhancedSimpleReport;
+  newFights: EnhancedSimpleReport["fights"]; // Fights added since the previous fetch
+}
+
+// Progress reported after each page of events is fetched
+export interface EventsPage {
+  events: SimpleEvent[]; // Events of this page only
+  pageCount: number;
+  progress: number; // 0..1 through the requested time range
+}
+
+interface EventTypeDefinition {
+  // WCL filter expression selecting the events of this type
+  filter: string;
+  // Whether a fetched raw event belongs to this type
+  matches: (event: WCLEvent, actors: Map<number, ActorInfo>) => boolean;
+}
+
+const isPlayer = (actors: Map<number, ActorInfo>, id?: number) => id !== undefined && actors.get(id)?.type === "Player";
+
+// Players and their pets (e.g. a hunter pet casting Primal Rage)
+const isFriendly = (actors: Map<number, ActorInfo>, id?: number) => isPlayer(actors, id) || (id !== undefined && actors.get(id)?.type === "Pet");
+
+// Everything we know how to fetch, keyed by event type
+const EVENT_TYPE_DEFINITIONS: Record<EventType, EventTypeDefinition> = {
+  // Only player deaths (exclude pets and NPCs)
+  Deaths: {
+    filter: "type = 'death' and target.type = 'Player'",
+    matches: (event) => event.type === "death",
+  },
+  // Only boss casts (exclude trash mobs)
+  Casts: {
+    filter: "type = 'cast' and source.type = 'NPC'",
+    matches: (event, actors) => event.type === "cast" && !isFriendly(actors, event.sourceID),
+  },
+  // Damage players took from anything that is not another player
+  DamageTaken: {
+    filter: "type = 'damage' and target.type = 'Player' and source.type != 'Player'",
+    matches: (event) => event.type === "damage",
+  },
+  // Player casts of cataloged defensives and raid cooldowns
+  Cooldowns: {
+    filter: `type = 'cast' and source.type = 'Player' and ability.id in (${[...COOLDOWNS_BY_SPELL_ID.keys()].join(", ")})`,
+    matches: (event, actors) => event.type === "cast" && isPlayer(actors, event.sourceID) && COOLDOWNS_BY_SPELL_ID.has(event.abilityGameID ?? 0),
+  },
+  // Successful kicks, including pet interrupts
+  Interrupts: {
+    filter: "type = 'interrupt'",
+    matches: (event) => event.type === "interrupt",
+  },
+  // Removed debuffs on players and purged enemy buffs
+  Dispels: {
+    filter: "type = 'dispel'",
+    matches: (event) => event.type === "dispel",
+  },
+  // Boss debuffs on players; removals are folded into the matching application
+  Auras: {
+    filter: "type in ('applydebuff', 'removedebuff') and source.type = 'NPC' and target.type = 'Player'",
+    matches: (event) => event.type === "applydebuff" || event.type === "removedebuff",
+  },
+  // Bloodlust effects, combat resurrections and potions used by the raid
+  RaidConsumables: {
+    filter: `type = 'cast' and source.type in ('Player', 'Pet') and ability.id in (${[...CONSUMABLES_BY_SPELL_ID.keys()].join(", ")})`,
+    matches: (event, actors) => event.type === "cast" && isFriendly(actors, event.sourceID) && CONSUMABLES_BY_SPELL_ID.has(event.abilityGameID ?? 0),
+  },
+};
+
+// Key pairing a debuff application with its removal
+const getAuraKey = (event: { targetID?: number; abilityGameID?: number }) => `${event.targetID}:${event.abilityGameID}`;
+
+interface WCLGraphSeries {
+  name: string;
+  id: number;
+  guid?: number;
+  type?: string;
+  pointStart?: number;
+  pointInterval?: number;
+  data: Array<number | [number, number]>;
+}
+
+interface WCLGraphResponse {
+  reportData: {
+    report: {
+      graph: {
+        data?: {
+          series?: WCLGraphSeries[];
+        };
+      } | null;
+    } | null;
+  } | null;
+}
+
+interface WCLThroughputGraphResponse {
+  reportData: {
+    report: {
+      damage: { data?: { series?: WCLGraphSeries[] } } | null;
+      healing: { data?: { series?: WCLGraphSeries[] } } | null;
+    } | null;
+  } | null;
+}
+
+interface BossHealthSeries {
+  actorId: number;
+  name: string;
+  points: Array<{ timestamp: number; percent: number }>; // Timestamps relative to report start in ms
+}
+
+interface ThroughputBucket {
+  timestamp: number; // Bucket start relative to report start in ms
+  damage: number; // Per second
+  healing: number; // Per second
+}
+
+// Resource type WCL uses for hit points in resource graphs
+const HIT_POINTS_RESOURCE_ID = 1000;
+
+// Width of the raid damage/healing buckets in ms
+const THROUGHPUT_BUCKET_MS = 5000;
+
+// Points of a graph series, given either as [timestamp, value] pairs or plain values spaced by pointInterval
+const getGraphPoints = (series: WCLGraphSeries) =>
+  series.data.map((point, index) =>
+    Array.isArray(point) ? { timestamp: point[0], value: point[1] } : { timestamp: (series.pointStart || 0) + index * (series.pointInterval || 0), value: point }
+  );
+
+// Raid-wide total per timestamp, using WCL's own total series when the graph has one
+const sumGraphSeries = (series: WCLGraphSeries[]) => {
+  const totalSeries = series.filter((s) => s.type === "Total" || s.name === "Total");
+  const totals = new Map<number, number>();
+
+  (totalSeries.length > 0 ? totalSeries : series).forEach((s) => {
+    getGraphPoints(s).forEach(({ timestamp, value }) => {
+      totals.set(timestamp, (totals.get(timestamp) || 0) + value);
+    });
+  });
+
+  return totals;
+};
+
+interface OverviewEvent {
+  fightId: number;
+  timestamp: number;
+  type: "Deaths" | "Casts";
+  abilityGameID?: number;
+  name?: string; // Ability name for casts, player name for deaths
+}
+
+interface DeathRecapEntry {
+  timestamp: number;
+  amount: number;
+  overkill?: number;
+  overheal?: number;
+  hitPoints?: number; // Health percent after the event
+  abilityGameID?: number;
+  abilityInfo?: AbilityInfo;
+  sourceInfo?: ActorInfo;
+}
+
+interface DeathRecapDefensive {
+  spellId: number;
+  name: string;
+  type: CooldownType;
+  appliedAt: number;
+  sourceInfo?: ActorInfo;
+}
+
+interface DeathRecap {
+  playerId: number;
+  playerInfo?: ActorInfo;
+  deathTimestamp: number;
+  windowStart: number;
+  damageTaken: DeathRecapEntry[];
+  healingReceived: DeathRecapEntry[];
+  activeDefensives: DeathRecapDefensive[]; // Cataloged buffs still up at the moment of death
+  totalDamage: number;
+  totalHealing: number;
+}
+
+// Longest cataloged cooldown effect, how far back to look for defensives still up at a death
+const DEFENSIVE_LOOKBACK_MS = Math.max(...[...COOLDOWNS_BY_SPELL_ID.values()].map((cooldown) => cooldown.duration)) * 1000;
+
 interface EncounterDetails {
   id: number;
   name: string;
@@ -134,15 +371,24 @@ interface EncounterDetails {
   };
 }
 
+// A report the client token may not read; only the user's own WCL login can
+export class WclPrivateReportError extends Error {
+  constructor() {
+    super("Report is private, log in with Warcraft Logs to view it");
+  }
+}
+
 export class WarcraftLogsClient {
   private clientId: string;
   private clientSecret: string;
   private apiBase: string;
+  private redirectUri: string;
 
   constructor() {
     this.clientId = process.env.WCL_CLIENT_ID || "";
     this.clientSecret = process.env.WCL_CLIENT_SECRET || "";
     this.apiBase = process.env.WCL_API_BASE || "https://www.warcraftlogs.com";
+    this.redirectUri = process.env.WCL_REDIRECT_URI || "http://localhost:3001/api/auth/wcl/callback";
 
     if (!this.clientId || !this.clientSecret) {
       throw new Error("WCL_CLIENT_ID and WCL_CLIENT_SECRET must be set in environment variables");
@@ -192,12 +438,115 @@ export class WarcraftLogsClient {
     }
   }
 
-  async executeGraphQLQuery<T>(query: string, variables: any = {}): Promise<T> {
-    const token = await this.getAccessToken();
+  // WCL page the user is sent to for logging in with their own account
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: "code",
+      state,
+    });
+
+    return `${this.apiBase}/oauth/authorize?${params}`;
+  }
+
+  private async requestUserToken(params: Record<string, string>): Promise<WCLAccessTokenResponse> {
+    const auth = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64");
+
+    const response = await axios.post<WCLAccessTokenResponse>(`${this.apiBase}/oauth/token`, new URLSearchParams(params).toString(), {
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Finish a login: trade the authorization code for the user's tokens and store them under a new session
+   */
+  async createUserSession(code: string): Promise<WclUserSessionDocument> {
+    try {
+      const { access_token, refresh_token, token_type, expires_in } = await this.requestUserToken({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: this.redirectUri,
+      });
+
+      const result = await this.executeGraphQLQuery<WCLCurrentUserData>(`query { userData { currentUser { id name } } }`, {}, access_token);
+      const user = result.userData.currentUser;
+      if (!user) {
+        throw new Error("No current user for token");
+      }
+
+      const session = await new WclUserSession({
+        sessionId: createSessionId(),
+        wclUserId: user.id,
+        wclUserName: user.name,
+        accessToken: access_token,
+        refreshToken: refresh_token,
+        tokenType: token_type,
+        expiresAt: new Date(Date.now() + (expires_in - 60) * 1000),
+      }).save();
+
+      console.log(`✅ WCL user ${user.name} logged in`);
+      return session;
+    } catch (error: any) {
+      console.error("Error logging in WCL user:", error.response?.data || error.message);
+      throw new Error("Failed to log in with Warcraft Logs");
+    }
+  }
+
+  /**
+   * Access token of a logged-in user, refreshed when expired.
+   * Returns null for unknown sessions or when the refresh fails, so callers fall back to the client token
+   */
+  async getUserAccessToken(sessionId: string): Promise<string | null> {
+    const session = await WclUserSession.findOne({ sessionId });
+    if (!session) {
+      return null;
+    }
+
+    if (session.expiresAt <= new Date()) {
+      if (!session.refreshToken) {
+        return null;
+      }
+
+      try {
+        const { access_token, refresh_token, token_type, expires_in } = await this.requestUserToken({
+          grant_type: "refresh_token",
+          refresh_token: session.refreshToken,
+        });
+
+        session.accessToken = access_token;
+        session.refreshToken = refresh_token || session.refreshToken;
+        session.tokenType = token_type;
+        session.expiresAt = new Date(Date.now() + (expires_in - 60) * 1000);
+        console.log(`✅ Refreshed WCL token for ${session.wclUserName}`);
+      } catch (error: any) {
+        console.error(`❌ Error refreshing WCL token for ${session.wclUserName}:`, error.response?.data || error.message);
+        return null;
+      }
+    }
+
+    session.lastUsed = new Date();
+    await session.save();
+    return session.accessToken;
+  }
+
+  /**
+   * Run a query against the client API, or against the user API with the logged-in user's token
+   * (from the request's session or passed in) so their private and guild reports are visible
+   */
+  async executeGraphQLQuery<T>(query: string, variables: any = {}, userToken?: string): Promise<T> {
+    const sessionToken = userToken ? null : await this.getSessionToken();
+    const token = userToken || sessionToken || (await this.getAccessToken());
+    const isUserToken = token === userToken || token === sessionToken;
 
     try {
       const response = await axios.post<WCLGraphQLResponse<T>>(
-        `${this.apiBase}/api/v2/client`,
+        `${this.apiBase}/api/v2/${isUserToken ? "user" : "client"}`,
         {
           query,
           variables,
@@ -217,17 +566,46 @@ export class WarcraftLogsClient {
       return response.data.data;
     } catch (error: any) {
       console.error("GraphQL query error:", error.response?.data || error.message);
+
+      // Private and guild-only reports need the user's own login
+      if (!isUserToken && /permission/i.test(error.message)) {
+        throw new WclPrivateReportError();
+      }
       throw new Error("Failed to execute GraphQL query");
     }
   }
 
-  async getReportSummary(reportCode: string): Promise<SimpleReport | null> {
+  /**
+   * Access token of the request's logged-in user, looked up once per request and kept in its context.
+   * Null when logged out or when the session cookie no longer matches a valid login
+   */
+  private getSessionToken(): Promise<string | null> {
+    const context = wclUserContext.getStore();
+    if (!context) {
+      return Promise.resolve(null);
+    }
+
+    context.userToken = context.userToken || this.getUserAccessToken(context.sessionId);
+    return context.userToken;
+  }
+
+  /**
+   * Whether fetched results may go into the shared caches. Those are keyed by report code only and served to anyone,
+   * so results read with a logged-in user's token, which can come from private or guild-only reports, stay out of them
+   */
+  private async canWriteSharedCache(): Promise<boolean> {
+    return !(await this.getSessionToken());
+  }
+
+  async getReportSummary(reportCode: string, forceRefresh = false): Promise<SimpleReport | null> {
     try {
       // Check cache first
       console.log(`Checking for cached report: ${reportCode}`);
       const cachedReport = await Report.findOne({ code: reportCode });
 
-      if (cachedReport) {
+      if (cachedReport && forceRefresh) {
+        console.log(`Refreshing cached report for ${reportCode}`);
+      } else if (cachedReport) {
         // Check if cache is still valid (under 1 hour old)
         const cacheAge = Date.now() - cachedReport.lastUpdated.getTime();
         const oneHour = 60 * 60 * 1000;
@@ -263,6 +641,18 @@ export class WarcraftLogsClient {
                 kill
                 fightPercentage
                 lastPhase
+                phaseTransitions {
+                  id
+                  startTime
+                }
+              }
+              phases {
+                encounterID
+                phases {
+                  id
+                  name
+                  isIntermission
+                }
               }
             }
           }
@@ -277,8 +667,24 @@ export class WarcraftLogsClient {
         return null;
       }
 
-      // Filter out trash fights (encounterID <= 0 or missing)
-      const bossFights = reportData.fights.filter((f) => f.encounterID && f.encounterID > 0);
+      // Phase names are defined per encounter
+      const phaseInfo = new Map<string, { name: string; isIntermission?: boolean }>();
+      reportData.phases?.forEach((encounter) => {
+        encounter.phases.forEach((phase) => {
+          phaseInfo.set(`${encounter.encounterID}:${phase.id}`, { name: phase.name, isIntermission: phase.isIntermission });
+        });
+      });
+
+      // Flag trash fights (encounterID <= 0 or missing) and name the phase transitions of boss fights
+      const fights = reportData.fights.map(({ phaseTransitions, ...fight }) => ({
+        ...fight,
+        isTrash: !fight.encounterID || fight.encounterID <= 0,
+        phaseTransitions: (phaseTransitions || []).map((transition) => ({
+          id: transition.id,
+          startTime: transition.startTime,
+          ...phaseInfo.get(`${fight.encounterID}:${transition.id}`),
+        })),
+      }));
       // Create report object
       const report: SimpleReport = {
         code: reportCode,
@@ -286,14 +692,15 @@ export class WarcraftLogsClient {
         startTime: reportData.startTime,
         endTime: reportData.endTime,
         owner: reportData.owner,
-        fights: bossFights,
+        fights,
         lastUpdated: new Date(),
-        lastFightCount: bossFights.length,
       };
 
       // Update or create cache
       try {
-        if (cachedReport) {
+        if (!(await this.canWriteSharedCache())) {
+          console.log(`Not caching report ${reportCode} fetched with a user token`);
+        } else if (cachedReport) {
           console.log(`Updating cached report for ${reportCode}`);
           await Report.updateOne({ code: reportCode }, report);
           console.log(`✅ Updated cached report for ${reportCode}`);
@@ -310,6 +717,22 @@ export class WarcraftLogsClient {
       return report;
     } catch (error: any) {
       console.error(`Error fetching report ${reportCode}:`, error.message);
+      if (error instanceof WclPrivateReportError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Refetch a report that is still being logged, bypassing the cached summary
+   */
+  async pollLiveReport(reportCode: string): Promise<LiveReportUpdate["report"] | null> {
+    try {
+      // Enriched like the initial load, so the refreshed fights keep their boss names and journal links
+      return await this.getReportWithEncounterDetails(reportCode, true);
+    } catch (error: any) {
+      console.error(`Error polling live report ${reportCode}:`, error.message);
       return null;
     }
   }
@@ -413,6 +836,12 @@ export class WarcraftLogsClient {
     }
   }
 
+  // Actors of a report (players by default), sorted by name
+  async getActors(reportCode: string, type: string = "Player"): Promise<ActorInfo[]> {
+    const { actors } = await this.getMasterData(reportCode);
+    return [...actors.values()].filter((actor) => actor.type === type).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
   async getMultipleEncounterDetails(encounterIDs: number[]): Promise<Map<number, EncounterDetails>> {
     const encounterMap = new Map<number, EncounterDetails>();
 
@@ -478,10 +907,10 @@ export class WarcraftLogsClient {
     return encounterMap;
   }
 
-  async getReportWithEncounterDetails(reportCode: string): Promise<EnhancedSimpleReport | null> {
+  async getReportWithEncounterDetails(reportCode: string, forceRefresh = false): Promise<EnhancedSimpleReport | null> {
     try {
       // First get the basic report
-      const report = await this.getReportSummary(reportCode);
+      const report = await this.getReportSummary(reportCode, forceRefresh);
       if (!report) {
         return null;
       }
@@ -523,25 +952,30 @@ export class WarcraftLogsClient {
       };
 
       // Update the database with enhanced data
-      try {
-        await Report.updateOne(
-          { code: reportCode },
-          {
-            $set: {
-              fights: enhancedFights,
-              lastUpdated: new Date(),
-            },
-          }
-        );
-        console.log(`✅ Updated cached report ${reportCode} with encounter details (journalID, encounterName, zoneName)`);
-      } catch (dbError: any) {
-        console.error(`❌ Database error updating enhanced report ${reportCode}:`, dbError.message);
-        // Don't fail the request if database update fails, just log and continue
+      if (await this.canWriteSharedCache()) {
+        try {
+          await Report.updateOne(
+            { code: reportCode },
+            {
+              $set: {
+                fights: enhancedFights,
+                lastUpdated: new Date(),
+              },
+            }
+          );
+          console.log(`✅ Updated cached report ${reportCode} with encounter details (journalID, encounterName, zoneName)`);
+        } catch (dbError: any) {
+          console.error(`❌ Database error updating enhanced report ${reportCode}:`, dbError.message);
+          // Don't fail the request if database update fails, just log and continue
+        }
       }
 
       return enhancedReport;
     } catch (error: any) {
       console.error(`Error fetching enhanced report ${reportCode}:`, error.message);
+      if (error instanceof WclPrivateReportError) {
+        throw error;
+      }
       return null;
     }
   }
@@ -551,8 +985,13 @@ export class WarcraftLogsClient {
     fightId?: number,
     startTime?: number,
     endTime?: number,
-    eventTypes: string[] = ["Deaths", "Casts"]
-  ): Promise<{ events: SimpleEvent[]; cached: boolean; lastUpdated?: Date }> {
+    eventTypes: string[] = ["Deaths", "Casts"],
+    onPage?: (page: EventsPage) => void,
+    fightIDs?: number[] // Only query these fights; WCL skips everything between them
+  ): Promise<{ events: SimpleEvent[]; cached: boolean; lastUpdated?: Date; error?: string }> {
+    // Ignore unknown event types and normalize order so the cache key is stable
+    const requestedTypes = [...new Set(eventTypes)].filter((type): type is EventType => type in EVENT_TYPE_DEFINITIONS).sort();
+
     try {
       // Check cache first
       if (fightId && startTime && endTime) {
@@ -561,6 +1000,7 @@ export class WarcraftLogsClient {
           fightId,
           startTime,
           endTime,
+          eventTypes: requestedTypes,
         });
 
         if (cached) {
@@ -585,22 +1025,19 @@ export class WarcraftLogsClient {
 
       // Fetch from WCL API
       const events: SimpleEvent[] = [];
+      const openAuras = new Map<string, SimpleEvent>(); // Applied debuffs waiting for their removal
+      const rangeStart = startTime || 0;
+      const rangeEnd = endTime || Date.now();
       let nextPageTimestamp: number | undefined;
       let pageCount = 0;
-      const maxPages = 10; // Safety limit
 
+      // WCL pages by returning the timestamp the next page starts at, until the range is exhausted
       do {
         const query = `
-          query GetEvents($code: String!, $startTime: Float!, $endTime: Float!, $filterExpression: String) {
+          query GetEvents($code: String!, $startTime: Float!, $endTime: Float!, $filterExpression: String, $fightIDs: [Int]) {
             reportData {
               report(code: $code) {
-                events(
-                  startTime: $startTime
-                  endTime: $endTime
-                  filterExpression: $filterExpression
-                  limit: 1000
-                  ${nextPageTimestamp ? `startingAfterTime: ${nextPageTimestamp}` : ""}
-                ) {
+                events(startTime: $startTime, endTime: $endTime, filterExpression: $filterExpression, fightIDs: $fightIDs, limit: 1000) {
                   data
                   nextPageTimestamp
                 }
@@ -609,24 +1046,15 @@ export class WarcraftLogsClient {
           }
         `;
 
-        const filterExpressions = eventTypes
-          .map((type) => {
-            if (type === "Deaths") {
-              // Filter to only player deaths (exclude pets and NPCs)
-              return "type = 'death' and target.type = 'Player'";
-            } else if (type === "Casts") {
-              // Filter to only boss casts (exclude trash mobs)
-              return "type = 'cast' and source.type = 'NPC'";
-            }
-            return "";
-          })
-          .filter(Boolean);
+        const filterExpressions = requestedTypes.map((type) => `(${EVENT_TYPE_DEFINITIONS[type].filter})`);
+        const pageStart = nextPageTimestamp ?? rangeStart;
 
         const variables: any = {
           code: reportCode,
-          startTime: startTime || 0,
-          endTime: endTime || Date.now(),
+          startTime: pageStart,
+          endTime: rangeEnd,
           filterExpression: filterExpressions.join(" or "),
+          ...(fightIDs && { fightIDs }),
         };
 
         const result = await this.executeGraphQLQuery<WCLEventsResponse>(query, variables);
@@ -636,16 +1064,31 @@ export class WarcraftLogsClient {
           break;
         }
 
+        const pageStartIndex = events.length;
+
         // Process events and enhance with master data
-        eventData.data.forEach((event: any) => {
-          const eventType = event.type === "death" ? "Deaths" : "Casts";
+        eventData.data.forEach((event) => {
+          const eventType = requestedTypes.find((type) => EVENT_TYPE_DEFINITIONS[type].matches(event, actors));
+          if (!eventType) {
+            return;
+          }
+
+          // A debuff removal closes the open application instead of becoming its own event
+          if (event.type === "removedebuff") {
+            const aura = openAuras.get(getAuraKey(event));
+            if (aura) {
+              aura.duration = event.timestamp - aura.timestamp;
+              openAuras.delete(getAuraKey(event));
+            }
+            return;
+          }
 
           // Build enhanced event
           const enhancedEvent: SimpleEvent = {
             reportCode,
             fightId: fightId || 0,
             timestamp: event.timestamp,
-            type: eventType as "Deaths" | "Casts",
+            type: eventType,
             sourceID: event.sourceID,
             targetID: event.targetID,
             abilityGameID: event.abilityGameID,
@@ -653,11 +1096,36 @@ export class WarcraftLogsClient {
             data: event.data,
           };
 
+          // Damage events carry the hit size
+          if (eventType === "DamageTaken") {
+            enhancedEvent.amount = event.amount;
+            enhancedEvent.overkill = event.overkill;
+          }
+
+          // Cooldowns last as long as their cataloged effect
+          const cooldown = eventType === "Cooldowns" ? COOLDOWNS_BY_SPELL_ID.get(event.abilityGameID ?? 0) : undefined;
+          if (cooldown) {
+            enhancedEvent.duration = cooldown.duration * 1000;
+            enhancedEvent.cooldownType = cooldown.type;
+          }
+
+          // Consumables are tagged with their kind so lust, brez and potions can be told apart
+          const consumable = eventType === "RaidConsumables" ? CONSUMABLES_BY_SPELL_ID.get(event.abilityGameID ?? 0) : undefined;
+          if (consumable) {
+            enhancedEvent.consumableType = consumable.type;
+          }
+
           // Add ability info if available
           if (event.abilityGameID && abilities.has(event.abilityGameID)) {
             enhancedEvent.abilityInfo = abilities.get(event.abilityGameID);
           }
 
+          // Add the interrupted spell or dispelled aura if available
+          if (event.extraAbilityGameID) {
+            enhancedEvent.extraAbilityGameID = event.extraAbilityGameID;
+            enhancedEvent.extraAbilityInfo = abilities.get(event.extraAbilityGameID);
+          }
+
           // Add source actor info if available
           if (event.sourceID && actors.has(event.sourceID)) {
             enhancedEvent.sourceInfo = actors.get(event.sourceID);
@@ -668,29 +1136,54 @@ export class WarcraftLogsClient {
             enhancedEvent.targetInfo = actors.get(event.targetID);
           }
 
+          if (eventType === "Auras") {
+            // Reapplying a debuff that was never removed ends the previous application
+            const previous = openAuras.get(getAuraKey(event));
+            if (previous) {
+              previous.duration = event.timestamp - previous.timestamp;
+            }
+            openAuras.set(getAuraKey(event), enhancedEvent);
+          }
+
           events.push(enhancedEvent);
         });
 
-        nextPageTimestamp = eventData.nextPageTimestamp;
+        // A next page that does not move forward would loop forever
+        nextPageTimestamp = eventData.nextPageTimestamp && eventData.nextPageTimestamp > pageStart ? eventData.nextPageTimestamp : undefined;
         pageCount++;
-      } while (nextPageTimestamp && pageCount < maxPages);
 
-      console.log(`Fetched ${events.length} events for ${reportCode} fight ${fightId || "all"}`);
+        onPage?.({
+          events: events.slice(pageStartIndex),
+          pageCount,
+          progress: nextPageTimestamp ? (nextPageTimestamp - rangeStart) / Math.max(rangeEnd - rangeStart, 1) : 1,
+        });
+      } while (nextPageTimestamp);
+
+      // Debuffs still up when the range ends last until its end
+      openAuras.forEach((aura) => {
+        aura.duration = Math.max(0, rangeEnd - aura.timestamp);
+      });
+
+      console.log(`Fetched ${events.length} events in ${pageCount} pages for ${reportCode} fight ${fightId || "all"}`);
 
       // Cache the results if we have fight and time info
-      if (fightId && startTime && endTime && events.length > 0) {
+      if (fightId && startTime && endTime && events.length > 0 && (await this.canWriteSharedCache())) {
         try {
           const cacheData = {
             reportCode,
             fightId,
             startTime,
             endTime,
+            eventTypes: requestedTypes,
             events,
             lastUpdated: new Date(),
           };
 
           console.log(`Caching ${events.length} events for ${reportCode} fight ${fightId}`);
-          await CachedEvents.findOneAndUpdate({ reportCode, fightId, startTime, endTime }, cacheData, { upsert: true, new: true });
+          await CachedEvents.findOneAndUpdate({ reportCode, fightId, startTime, endTime, eventTypes: requestedTypes }, cacheData, {
+            upsert: true,
+            new: true,
+          });
           console.log(`✅ Cached events for ${reportCode} fight ${fightId}`);
         } catch (dbError: any) {
           console.error(`❌ Database error saving events for ${reportCode} fight ${fightId}:`, dbError.message);
@@ -705,6 +1198,330 @@ export class WarcraftLogsClient {
       };
     } catch (error: any) {
       console.error(`Error fetching events for ${reportCode}:`, error.message);
+      return { events: [], cached: false, error: error.message };
+    }
+  }
+
+  async getBossHealth(reportCode: string, fightId: number): Promise<{ series: BossHealthSeries[]; cached: boolean; lastUpdated?: Date }> {
+    try {
+      // Check cache first
+      const cached = await CachedBossHealth.findOne({ reportCode, fightId });
+
+      if (cached) {
+        // Check if cache is still valid (under 15 minutes old)
+        const cacheAge = Date.now() - cached.lastUpdated.getTime();
+        const fifteenMinutes = 15 * 60 * 1000;
+
+        if (cacheAge < fifteenMinutes) {
+          console.log(`Using cached boss health for ${reportCode} fight ${fightId}`);
+          return {
+            series: cached.series as BossHealthSeries[],
+            cached: true,
+            lastUpdated: cached.lastUpdated,
+          };
+        }
+      }
+
+      // Boss actors are identified through master data
+      const { actors } = await this.getMasterData(reportCode);
+
+      const query = `
+        query GetBossHealth($code: String!, $fightIDs: [Int]!) {
+          reportData {
+            report(code: $code) {
+              graph(fightIDs: $fightIDs, dataType: Resources, hostilityType: Enemies, abilityID: ${HIT_POINTS_RESOURCE_ID})
+            }
+          }
+        }
+      `;
+
+      const variables = { code: reportCode, fightIDs: [fightId] };
+      const result = await this.executeGraphQLQuery<WCLGraphResponse>(query, variables);
+      const allSeries = result.reportData?.report?.graph?.data?.series || [];
+
+      // Keep only boss actors, falling back to every enemy if none is flagged as a boss
+      const bossSeries = allSeries.filter((series) => actors.get(series.id)?.subType === "Boss" || series.type === "Boss");
+
+      const series: BossHealthSeries[] = (bossSeries.length > 0 ? bossSeries : allSeries).map((graphSeries) => ({
+        actorId: graphSeries.id,
+        name: graphSeries.name,
+        points: getGraphPoints(graphSeries).map(({ timestamp, value }) => ({ timestamp, percent: value })),
+      }));
+
+      console.log(`Fetched boss health for ${reportCode} fight ${fightId}: ${series.length} series`);
+
+      // Cache the results
+      if (series.length > 0 && (await this.canWriteSharedCache())) {
+        try {
+          await CachedBossHealth.findOneAndUpdate({ reportCode, fightId }, { reportCode, fightId, series, lastUpdated: new Date() }, { upsert: true, new: true });
+          console.log(`✅ Cached boss health for ${reportCode} fight ${fightId}`);
+        } catch (dbError: any) {
+          console.error(`❌ Database error saving boss health for ${reportCode} fight ${fightId}:`, dbError.message);
+          // Don't fail the request if database save fails, just log and continue
+        }
+      }
+
+      return {
+        series,
+        cached: false,
+        lastUpdated: new Date(),
+      };
+    } catch (error: any) {
+      console.error(`Error fetching boss health for ${reportCode} fight ${fightId}:`, error.message);
+      return { series: [], cached: false };
+    }
+  }
+
+  async getRaidThroughput(reportCode: string, fightId: number): Promise<{ buckets: ThroughputBucket[]; bucketSize: number; cached: boolean; lastUpdated?: Date }> {
+    try {
+      // Check cache first
+      const cached = await CachedRaidThroughput.findOne({ reportCode, fightId });
+
+      if (cached) {
+        // Check if cache is still valid (under 15 minutes old)
+        const cacheAge = Date.now() - cached.lastUpdated.getTime();
+        const fifteenMinutes = 15 * 60 * 1000;
+
+        if (cacheAge < fifteenMinutes) {
+          console.log(`Using cached raid throughput for ${reportCode} fight ${fightId}`);
+          return {
+            buckets: cached.buckets as ThroughputBucket[],
+            bucketSize: cached.bucketSize,
+            cached: true,
+            lastUpdated: cached.lastUpdated,
+          };
+        }
+      }
+
+      const query = `
+        query GetRaidThroughput($code: String!, $fightIDs: [Int]!) {
+          reportData {
+            report(code: $code) {
+              damage: graph(fightIDs: $fightIDs, dataType: DamageDone, hostilityType: Friendlies)
+              healing: graph(fightIDs: $fightIDs, dataType: Healing, hostilityType: Friendlies)
+            }
+          }
+        }
+      `;
+
+      const variables = { code: reportCode, fightIDs: [fightId] };
+      const result = await this.executeGraphQLQuery<WCLThroughputGraphResponse>(query, variables);
+      const report = result.reportData?.report;
+
+      const damageTotals = sumGraphSeries(report?.damage?.data?.series || []);
+      const healingTotals = sumGraphSeries(report?.healing?.data?.series || []);
+
+      // Average the per-second raid totals over fixed-width buckets starting at the first point
+      const timestamps = [...new Set([...damageTotals.keys(), ...healingTotals.keys()])].sort((a, b) => a - b);
+      const firstTimestamp = timestamps[0] || 0;
+      const sums = new Map<number, { damage: number; healing: number; count: number }>();
+
+      timestamps.forEach((timestamp) => {
+        const bucketStart = firstTimestamp + Math.floor((timestamp - firstTimestamp) / THROUGHPUT_BUCKET_MS) * THROUGHPUT_BUCKET_MS;
+        const sum = sums.get(bucketStart) || { damage: 0, healing: 0, count: 0 };
+        sum.damage += damageTotals.get(timestamp) || 0;
+        sum.healing += healingTotals.get(timestamp) || 0;
+        sum.count++;
+        sums.set(bucketStart, sum);
+      });
+
+      const buckets: ThroughputBucket[] = [...sums.entries()].map(([timestamp, sum]) => ({
+        timestamp,
+        damage: Math.round(sum.damage / sum.count),
+        healing: Math.round(sum.healing / sum.count),
+      }));
+
+      console.log(`Fetched raid throughput for ${reportCode} fight ${fightId}: ${buckets.length} buckets`);
+
+      // Cache the results
+      if (buckets.length > 0 && (await this.canWriteSharedCache())) {
+        try {
+          await CachedRaidThroughput.findOneAndUpdate(
+            { reportCode, fightId },
+            { reportCode, fightId, bucketSize: THROUGHPUT_BUCKET_MS, buckets, lastUpdated: new Date() },
+            { upsert: true, new: true }
+          );
+          console.log(`✅ Cached raid throughput for ${reportCode} fight ${fightId}`);
+        } catch (dbError: any) {
+          console.error(`❌ Database error saving raid throughput for ${reportCode} fight ${fightId}:`, dbError.message);
+          // Don't fail the request if database save fails, just log and continue
+        }
+      }
+
+      return {
+        buckets,
+        bucketSize: THROUGHPUT_BUCKET_MS,
+        cached: false,
+        lastUpdated: new Date(),
+      };
+    } catch (error: any) {
+      console.error(`Error fetching raid throughput for ${reportCode} fight ${fightId}:`, error.message);
+      return { buckets: [], bucketSize: THROUGHPUT_BUCKET_MS, cached: false };
+    }
+  }
+
+  async getDeathRecap(reportCode: string, fightId: number, playerId: number, deathTimestamp: number, windowSeconds: number): Promise<DeathRecap | null> {
+    try {
+      const { abilities, actors } = await this.getMasterData(reportCode);
+
+      const windowStart = deathTimestamp - windowSeconds * 1000;
+      const queryStart = Math.min(windowStart, deathTimestamp - DEFENSIVE_LOOKBACK_MS);
+      const defensiveIds = [...COOLDOWNS_BY_SPELL_ID.keys()].join(", ");
+
+      const query = `
+        query GetDeathRecap($code: String!, $fightIDs: [Int]!, $startTime: Float!, $endTime: Float!, $filterExpression: String) {
+          reportData {
+            report(code: $code) {
+              events(fightIDs: $fightIDs, startTime: $startTime, endTime: $endTime, filterExpression: $filterExpression, includeResources: true, limit: 10000) {
+                data
+              }
+            }
+          }
+        }
+      `;
+
+      const variables = {
+        code: reportCode,
+        fightIDs: [fightId],
+        startTime: queryStart,
+        // Include events sharing the death's timestamp
+        endTime: deathTimestamp + 1,
+        filterExpression: `target.id = ${playerId} and (type in ('damage', 'heal') or (type in ('applybuff', 'removebuff') and ability.id in (${defensiveIds})))`,
+      };
+
+      const result = await this.executeGraphQLQuery<WCLEventsResponse>(query, variables);
+      const eventData = result.reportData?.report?.events?.data || [];
+
+      const toEntry = (event: WCLEvent): DeathRecapEntry => ({
+        timestamp: event.timestamp,
+        amount: event.amount || 0,
+        overkill: event.overkill,
+        overheal: event.overheal,
+        hitPoints: event.hitPoints,
+        abilityGameID: event.abilityGameID,
+        abilityInfo: event.abilityGameID ? abilities.get(event.abilityGameID) : undefined,
+        sourceInfo: event.sourceID ? actors.get(event.sourceID) : undefined,
+      });
+
+      const inWindow = (event: WCLEvent) => event.timestamp >= windowStart;
+      const damageTaken = eventData.filter((event) => event.type === "damage" && inWindow(event)).map(toEntry);
+      const healingReceived = eventData.filter((event) => event.type === "heal" && inWindow(event) && (event.amount || 0) > 0).map(toEntry);
+
+      // Replay buff applications and removals to find what was still up at the death
+      const openDefensives = new Map<number, DeathRecapDefensive>();
+      eventData.forEach((event) => {
+        const cooldown = COOLDOWNS_BY_SPELL_ID.get(event.abilityGameID ?? 0);
+        if (!cooldown) return;
+
+        if (event.type === "applybuff") {
+          openDefensives.set(cooldown.spellId, {
+            spellId: cooldown.spellId,
+            name: cooldown.name,
+            type: cooldown.type,
+            appliedAt: event.timestamp,
+            sourceInfo: event.sourceID ? actors.get(event.sourceID) : undefined,
+          });
+        } else if (event.type === "removebuff" && event.timestamp < deathTimestamp) {
+          openDefensives.delete(cooldown.spellId);
+        }
+      });
+
+      console.log(`Fetched death recap for ${reportCode} fight ${fightId} player ${playerId}: ${damageTaken.length} hits, ${healingReceived.length} heals`);
+
+      return {
+        playerId,
+        playerInfo: actors.get(playerId),
+        deathTimestamp,
+        windowStart,
+        damageTaken,
+        healingReceived,
+        activeDefensives: [...openDefensives.values()],
+        totalDamage: damageTaken.reduce((sum, entry) => sum + entry.amount, 0),
+        totalHealing: healingReceived.reduce((sum, entry) => sum + entry.amount, 0),
+      };
+    } catch (error: any) {
+      console.error(`Error fetching death recap for ${reportCode} fight ${fightId} player ${playerId}:`, error.message);
+      return null;
+    }
+  }
+
+  async getReportOverview(reportCode: string): Promise<{ events: OverviewEvent[]; cached: boolean; lastUpdated?: Date }> {
+    try {
+      // Check cache first
+      const cached = await CachedReportOverview.findOne({ reportCode });
+
+      if (cached) {
+        // Check if cache is still valid (under 15 minutes old)
+        const cacheAge = Date.now() - cached.lastUpdated.getTime();
+        const fifteenMinutes = 15 * 60 * 1000;
+
+        if (cacheAge < fifteenMinutes) {
+          console.log(`Using cached overview for ${reportCode}`);
+          return {
+            events: cached.events as OverviewEvent[],
+            cached: true,
+            lastUpdated: cached.lastUpdated,
+          };
+        }
+      }
+
+      const report = await this.getReportSummary(reportCode);
+      if (!report) {
+        return { events: [], cached: false };
+      }
+
+      const bossFights = report.fights.filter((fight) => !fight.isTrash);
+      if (bossFights.length === 0) {
+        return { events: [], cached: false, lastUpdated: new Date() };
+      }
+
+      // One paged query restricted to the boss pulls, so trash and the time between pulls are never fetched.
+      // Event times are relative to report start like fight times
+      const { events } = await this.getEvents(
+        reportCode,
+        undefined,
+        Math.min(...bossFights.map((fight) => fight.startTime)),
+        Math.max(...bossFights.map((fight) => fight.endTime)),
+        ["Deaths", "Casts"],
+        undefined,
+        bossFights.map((fight) => fight.id)
+      );
+
+      // Keep events inside boss pulls, tagged with their fight
+      const overviewEvents: OverviewEvent[] = [];
+      events.forEach((event) => {
+        const fight = bossFights.find((f) => event.timestamp >= f.startTime && event.timestamp <= f.endTime);
+        if (!fight || (event.type !== "Deaths" && event.type !== "Casts")) return;
+
+        overviewEvents.push({
+          fightId: fight.id,
+          timestamp: event.timestamp,
+          type: event.type,
+          abilityGameID: event.abilityGameID,
+          name: event.type === "Deaths" ? event.targetInfo?.name : event.abilityInfo?.name || event.ability?.name,
+        });
+      });
+
+      console.log(`Fetched overview for ${reportCode}: ${overviewEvents.length} events across ${bossFights.length} pulls`);
+
+      // Cache the results
+      if (await this.canWriteSharedCache()) {
+        try {
+          await CachedReportOverview.findOneAndUpdate({ reportCode }, { reportCode, events: overviewEvents, lastUpdated: new Date() }, { upsert: true, new: true });
+          console.log(`✅ Cached overview for ${reportCode}`);
+        } catch (dbError: any) {
+          console.error(`❌ Database error saving overview for ${reportCode}:`, dbError.message);
+          // Don't fail the request if database save fails, just log and continue
+        }
+      }
+
+      return {
+        events: overviewEvents,
+        cached: false,
+        lastUpdated: new Date(),
+      };
+    } catch (error: any) {
+      console.error(`Error fetching overview for ${reportCode}:`, error.message);
       return { events: [], cached: false };
     }
   }
@@ -12,11 +12,19 @@ interface YouTubeContentDetails {
   duration: string; // ISO 8601 duration format (e.g., "PT1H23M45S")
 }
 
+// Only present for videos that were livestreams
+interface YouTubeLiveStreamingDetails {
+  actualStartTime?: string;
+  actualEndTime?: string;
+  scheduledStartTime?: string;
+}
+
 interface YouTubeVideoResponse {
   items: Array<{
     id: string;
     snippet: YouTubeVideoSnippet;
     contentDetails: YouTubeContentDetails;
+    liveStreamingDetails?: YouTubeLiveStreamingDetails;
   }>;
 }
 
@@ -51,13 +59,14 @@ export class YouTubeClient {
   /**
    * Get video metadata including published date and duration
    * @param videoId YouTube video ID
-   * @returns Video metadata with publishedAt date in ISO 8601 format and duration in seconds
+   * @returns Video metadata with publishedAt date in ISO 8601 format and duration in seconds, plus the
+   * actual start and end of the broadcast for livestream VODs
    */
   async getVideoMetadata(videoId: string) {
     try {
       const response = await axios.get<YouTubeVideoResponse>(`${this.baseUrl}/videos`, {
         params: {
-          part: "snippet,contentDetails",
+          part: "snippet,contentDetails,liveStreamingDetails",
           id: videoId,
           key: this.apiKey,
         },
@@ -78,6 +87,9 @@ export class YouTubeClient {
         channelId: video.snippet.channelId,
         channelTitle: video.snippet.channelTitle,
         duration: durationSeconds,
+        actualStartTime: video.liveStreamingDetails?.actualStartTime,
+        actualEndTime: video.liveStreamingDetails?.actualEndTime,
+        isLiveStream: !!video.liveStreamingDetails,
       };
     } catch (error: any) {
       if (axios.isAxiosError(error)) {
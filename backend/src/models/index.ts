@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+// Event categories produced by WarcraftLogsClient.getEvents
+export type EventType = "Deaths" | "Casts" | "DamageTaken" | "Cooldowns" | "Interrupts" | "Dispels" | "Auras" | "RaidConsumables";
+export const EVENT_TYPES: EventType[] = ["Deaths", "Casts", "DamageTaken", "Cooldowns", "Interrupts", "Dispels", "Auras", "RaidConsumables"];
+
 // Simplified document types
 export interface ReportDocument extends Document {
   code: string;
@@ -18,22 +22,33 @@ export interface ReportDocument extends Document {
     kill?: boolean;
     fightPercentage?: number;
     lastPhase?: number;
+    phaseTransitions?: {
+      id: number;
+      startTime: number;
+      name?: string;
+      isIntermission?: boolean;
+    }[];
+    isTrash?: boolean;
   }[];
   lastUpdated: Date;
-  lastFightCount: number;
 }
 
 export interface EventDocument extends Document {
   reportCode: string;
   fightId: number;
   timestamp: number;
-  type: "Deaths" | "Casts";
+  type: EventType;
   sourceID?: number;
   targetID?: number;
   abilityGameID?: number;
+  extraAbilityGameID?: number;
   stack?: number;
   hitType?: number;
   amount?: number;
+  overkill?: number;
+  duration?: number;
+  cooldownType?: "personal" | "external" | "raid";
+  consumableType?: "bloodlust" | "battleRes" | "soulstone" | "potion" | "healing";
   mitigated?: number;
   unmitigatedAmount?: number;
   ability?: { name: string; guid: number; type: number };
@@ -45,6 +60,12 @@ export interface EventDocument extends Document {
     icon: string;
     type?: number;
   };
+  extraAbilityInfo?: {
+    gameID: number;
+    name: string;
+    icon: string;
+    type?: number;
+  };
   sourceInfo?: {
     id: number;
     name: string;
@@ -70,11 +91,57 @@ export interface CachedEventsDocument extends Document {
   fightId: number;
   startTime: number;
   endTime: number;
+  eventTypes: string[];
   events: EventDocument[];
   lastUpdated: Date;
 }
 
+export interface CachedBossHealthDocument extends Document {
+  reportCode: string;
+  fightId: number;
+  series: {
+    actorId: number;
+    name: string;
+    points: { timestamp: number; percent: number }[];
+  }[];
+  lastUpdated: Date;
+}
+
+export interface CachedRaidThroughputDocument extends Document {
+  reportCode: string;
+  fightId: number;
+  bucketSize: number;
+  buckets: {
+    timestamp: number;
+    damage: number;
+    healing: number;
+  }[];
+  lastUpdated: Date;
+}
+
+export interface CachedReportOverviewDocument extends Document {
+  reportCode: string;
+  events: {
+    fightId: number;
+    timestamp: number;
+    type: "Deaths" | "Casts";
+    abilityGameID?: number;
+    name?: string; // Ability name for casts, player name for deaths
+  }[];
+  lastUpdated: Date;
+}
+
 // Schemas
+const PhaseTransitionSchema = new Schema(
+  {
+    id: { type: Number, required: true },
+    startTime: { type: Number, required: true },
+    name: { type: String },
+    isIntermission: { type: Boolean },
+  },
+  { _id: false }
+);
+
 const FightSchema = new Schema(
   {
     id: { type: Number, required: true },
@@ -87,6 +154,8 @@ const FightSchema = new Schema(
     kill: { type: Boolean },
     fightPercentage: { type: Number },
     lastPhase: { type: Number },
+    phaseTransitions: [PhaseTransitionSchema],
+    isTrash: { type: Boolean, default: false },
   },
   { _id: false }
 );
@@ -101,20 +170,24 @@ const ReportSchema = new Schema({
   },
   fights: [FightSchema],
   lastUpdated: { type: Date, default: Date.now },
-  lastFightCount: { type: Number, default: 0 },
 });
 
 const EventSchema = new Schema({
   reportCode: { type: String, required: true },
   fightId: { type: Number, required: true },
   timestamp: { type: Number, required: true },
-  type: { type: String, required: true, enum: ["Deaths", "Casts"] },
+  type: { type: String, required: true, enum: EVENT_TYPES },
   sourceID: { type: Number },
   targetID: { type: Number },
   abilityGameID: { type: Number },
+  extraAbilityGameID: { type: Number },
   stack: { type: Number },
   hitType: { type: Number },
   amount: { type: Number },
+  overkill: { type: Number },
+  duration: { type: Number },
+  cooldownType: { type: String, enum: ["personal", "external", "raid"] },
+  consumableType: { type: String, enum: ["bloodlust", "battleRes", "soulstone", "potion", "healing"] },
   mitigated: { type: Number },
   unmitigatedAmount: { type: Number },
   ability: {
@@ -130,6 +203,12 @@ const EventSchema = new Schema({
     icon: { type: String },
     type: { type: Number },
   },
+  extraAbilityInfo: {
+    gameID: { type: Number },
+    name: { type: String },
+    icon: { type: String },
+    type: { type: Number },
+  },
   sourceInfo: {
     id: { type: Number },
     name: { type: String },
@@ -155,13 +234,69 @@ const CachedEventsSchema = new Schema({
   fightId: { type: Number, required: true },
   startTime: { type: Number, required: true },
   endTime: { type: Number, required: true },
+  eventTypes: { type: [String], default: [] },
   events: [EventSchema],
   lastUpdated: { type: Date, default: Date.now },
 });
 
+const BossHealthSeriesSchema = new Schema(
+  {
+    actorId: { type: Number, required: true },
+    name: { type: String, required: true },
+    points: [
+      {
+        _id: false,
+        timestamp: { type: Number, required: true },
+        percent: { type: Number, required: true },
+      },
+    ],
+  },
+  { _id: false }
+);
+
+const CachedBossHealthSchema = new Schema({
+  reportCode: { type: String, required: true },
+  fightId: { type: Number, required: true },
+  series: [BossHealthSeriesSchema],
+  lastUpdated: { type: Date, default: Date.now },
+});
+
+const CachedRaidThroughputSchema = new Schema({
+  reportCode: { type: String, required: true },
+  fightId: { type: Number, required: true },
+  bucketSize: { type: Number, required: true },
+  buckets: [
+    {
+      _id: false,
+      timestamp: { type: Number, required: true },
+      damage: { type: Number, default: 0 },
+      healing: { type: Number, default: 0 },
+    },
+  ],
+  lastUpdated: { type: Date, default: Date.now },
+});
+
+// Compact events for the whole-report overview; a full EventSchema per event would not fit a long night in one document
+const CachedReportOverviewSchema = new Schema({
+  reportCode: { type: String, required: true, unique: true },
+  events: [
+    {
+      _id: false,
+      fightId: { type: Number, required: true },
+      timestamp: { type: Number, required: true },
+      type: { type: String, required: true, enum: ["Deaths", "Casts"] },
+      abilityGameID: { type: Number },
+      name: { type: String },
+    },
+  ],
+  lastUpdated: { type: Date, default: Date.now },
+});
+
 // Add indexes (removed duplicate index on code since it's already unique)
 EventSchema.index({ reportCode: 1, fightId: 1, timestamp: 1 });
-CachedEventsSchema.index({ reportCode: 1, fightId: 1, startTime: 1, endTime: 1 });
+CachedEventsSchema.index({ reportCode: 1, fightId: 1, startTime: 1, endTime: 1, eventTypes: 1 });
+CachedBossHealthSchema.index({ reportCode: 1, fightId: 1 }, { unique: true });
+CachedRaidThroughputSchema.index({ reportCode: 1, fightId: 1 }, { unique: true });
 
 // Auth Token models - stores tokens for both Blizzard and WCL APIs
 export interface AuthTokenDocument extends Document {
@@ -198,6 +333,9 @@ export interface VideoDocument extends Document {
   title: string;
   description: string;
   publishedAt?: string; // YouTube uses publishedAt
+  actualStartTime?: string; // YouTube livestreams: when the broadcast started
+  actualEndTime?: string; // YouTube livestreams: when the broadcast ended
+  isLiveStream?: boolean; // YouTube; missing on videos cached before livestream details were fetched
   createdAt?: string; // Twitch uses createdAt
   channelId?: string; // YouTube
   channelTitle?: string; // YouTube
@@ -210,6 +348,45 @@ export interface VideoDocument extends Document {
   lastUpdated: Date;
 }
 
+// Character a video was recorded from, per report
+export interface PovSelectionDocument extends Document {
+  reportCode: string;
+  platform: "youtube" | "twitch";
+  videoId: string;
+  actorId: number;
+  actorName: string;
+  lastUpdated: Date;
+}
+
+// A user logged in with their own WCL account, so their private and guild reports can be read
+export interface WclUserSessionDocument extends Document {
+  sessionId: string;
+  wclUserId: number;
+  wclUserName: string;
+  accessToken: string;
+  refreshToken?: string;
+  tokenType: string;
+  expiresAt: Date;
+  createdAt: Date;
+  lastUsed: Date;
+}
+
+// A saved review of a raid: reports, videos and their sync, shared by a short ID
+export interface SessionDocument extends Document {
+  shareId: string;
+  editToken: string; // Only the creator can update the session
+  reportCodes: string[]; // Several codes form a merged session, primary first
+  videos: { platform: "youtube" | "twitch"; videoId: string; startSeconds?: number }[];
+  offset: number; // wclTime = videoTime + offset, in seconds
+  syncAnchors: { videoTime: number; wclTime: number }[]; // Replace the offset when present
+  selectedFightId?: number;
+  notes: string;
+  synced: boolean; // Offset or anchors were set by the reviewer, so it can be suggested to others
+  editorId?: string; // Browser that saved the session, never returned by the API
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
 // Auth Token schema - stores tokens for both Blizzard and WCL APIs
 const AuthTokenSchema = new Schema({
   service: { type: String, required: true, enum: ["blizzard", "wcl"] },
@@ -245,6 +422,9 @@ const VideoSchema = new Schema({
   title: { type: String, required: true },
   description: { type: String, default: "" },
   publishedAt: { type: String }, // YouTube
+  actualStartTime: { type: String }, // YouTube livestreams
+  actualEndTime: { type: String }, // YouTube livestreams
+  isLiveStream: { type: Boolean }, // YouTube
   createdAt: { type: String }, // Twitch
   channelId: { type: String }, // YouTube
   channelTitle: { type: String }, // YouTube
@@ -257,6 +437,52 @@ const VideoSchema = new Schema({
   lastUpdated: { type: Date, default: Date.now },
 });
 
+// POV selection schema
+const PovSelectionSchema = new Schema({
+  reportCode: { type: String, required: true },
+  platform: { type: String, required: true, enum: ["youtube", "twitch"] },
+  videoId: { type: String, required: true },
+  actorId: { type: Number, required: true },
+  actorName: { type: String, required: true },
+  lastUpdated: { type: Date, default: Date.now },
+});
+
+// WCL user session schema - one row per login, unlike the shared client token in AuthToken
+const WclUserSessionSchema = new Schema({
+  sessionId: { type: String, required: true, unique: true },
+  wclUserId: { type: Number, required: true },
+  wclUserName: { type: String, required: true },
+  accessToken: { type: String, required: true },
+  refreshToken: { type: String },
+  tokenType: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  createdAt: { type: Date, default: Date.now },
+  lastUsed: { type: Date, default: Date.now },
+});
+
+// Review session schema
+const SessionSchema = new Schema({
+  shareId: { type: String, required: true, unique: true },
+  editToken: { type: String, required: true },
+  reportCodes: { type: [String], required: true },
+  videos: [
+    {
+      _id: false,
+      platform: { type: String, required: true, enum: ["youtube", "twitch"] },
+      videoId: { type: String, required: true },
+      startSeconds: { type: Number },
+    },
+  ],
+  offset: { type: Number, default: 0 },
+  syncAnchors: [{ _id: false, videoTime: { type: Number, required: true }, wclTime: { type: Number, required: true } }],
+  selectedFightId: { type: Number },
+  notes: { type: String, default: "" },
+  synced: { type: Boolean, default: false },
+  editorId: { type: String },
+  createdAt: { type: Date, default: Date.now },
+  lastUpdated: { type: Date, default: Date.now },
+});
+
 // Add indexes for Blizzard API collections
 AchievementSchema.index({ name: "text" }); // For text search
 // Note: id and bossName indexes are already created by unique: true
@@ -264,6 +490,12 @@ AchievementSchema.index({ name: "text" }); // For text search
 // Add compound unique index for videos
 VideoSchema.index({ platform: 1, videoId: 1 }, { unique: true });
 
+// One POV character per report and video
+PovSelectionSchema.index({ reportCode: 1, platform: 1, videoId: 1 }, { unique: true });
+
+// Alignment suggestions look up sessions by their reports
+SessionSchema.index({ reportCodes: 1 });
+
 // Add unique index for auth tokens - one token per service
 AuthTokenSchema.index({ service: 1 }, { unique: true });
 
@@ -271,8 +503,14 @@ AuthTokenSchema.index({ service: 1 }, { unique: true });
 export const Report = mongoose.model<ReportDocument>("Report", ReportSchema);
 export const Event = mongoose.model<EventDocument>("Event", EventSchema);
 export const CachedEvents = mongoose.model<CachedEventsDocument>("CachedEvents", CachedEventsSchema);
+export const CachedBossHealth = mongoose.model<CachedBossHealthDocument>("CachedBossHealth", CachedBossHealthSchema);
+export const CachedRaidThroughput = mongoose.model<CachedRaidThroughputDocument>("CachedRaidThroughput", CachedRaidThroughputSchema);
+export const CachedReportOverview = mongoose.model<CachedReportOverviewDocument>("CachedReportOverview", CachedReportOverviewSchema);
 export const AuthToken = mongoose.model<AuthTokenDocument>("AuthToken", AuthTokenSchema);
 export const Achievement = mongoose.model<AchievementDocument>("Achievement", AchievementSchema);
 export const BossIcon = mongoose.model<BossIconDocument>("BossIcon", BossIconSchema);
 export const AchievementUpdateLog = mongoose.model<AchievementUpdateLogDocument>("AchievementUpdateLog", AchievementUpdateLogSchema);
 export const Video = mongoose.model<VideoDocument>("Video", VideoSchema);
+export const PovSelection = mongoose.model<PovSelectionDocument>("PovSelection", PovSelectionSchema);
+export const WclUserSession = mongoose.model<WclUserSessionDocument>("WclUserSession", WclUserSessionSchema);
+export const Session = mongoose.model<SessionDocument>("Session", SessionSchema);
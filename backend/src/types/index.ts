@@ -9,7 +9,6 @@ export interface IReport {
   };
   fights: IFight[];
   lastUpdated: Date;
-  lastFightCount: number;
 }
 
 export interface IFight {
@@ -22,6 +21,15 @@ export interface IFight {
   kill?: boolean;
   fightPercentage?: number;
   lastPhase?: number;
+  phaseTransitions?: IPhaseTransition[];
+  isTrash?: boolean; // Pull without an encounter (encounterID missing or 0)
+}
+
+export interface IPhaseTransition {
+  id: number;
+  startTime: number;
+  name?: string;
+  isIntermission?: boolean;
 }
 
 export interface IEnhancedFight extends IFight {
@@ -65,10 +73,16 @@ export interface IEvent {
   reportCode: string;
   fightId: number;
   timestamp: number;
-  type: "Deaths" | "Casts";
+  type: "Deaths" | "Casts" | "DamageTaken" | "Cooldowns" | "Interrupts" | "Dispels" | "Auras" | "RaidConsumables";
   sourceID?: number;
   targetID?: number;
   abilityGameID?: number;
+  extraAbilityGameID?: number;
+  amount?: number;
+  overkill?: number;
+  duration?: number;
+  cooldownType?: "personal" | "external" | "raid";
+  consumableType?: "bloodlust" | "battleRes" | "soulstone" | "potion" | "healing";
   fight?: number;
   source?: any;
   target?: any;
@@ -76,6 +90,7 @@ export interface IEvent {
   data?: any;
   // Enhanced data
   abilityInfo?: IAbilityInfo;
+  extraAbilityInfo?: IAbilityInfo;
   sourceInfo?: IActorInfo;
   targetInfo?: IActorInfo;
 }
@@ -85,10 +100,103 @@ export interface ICachedEvents {
   fightId: number;
   startTime: number;
   endTime: number;
+  eventTypes: string[];
   events: IEvent[];
   lastUpdated: Date;
 }
 
+export interface IBossHealthSeries {
+  actorId: number;
+  name: string;
+  points: Array<{
+    timestamp: number; // Relative to report start in ms
+    percent: number;
+  }>;
+}
+
+export interface ICachedBossHealth {
+  reportCode: string;
+  fightId: number;
+  series: IBossHealthSeries[];
+  lastUpdated: Date;
+}
+
+export interface IThroughputBucket {
+  timestamp: number; // Bucket start relative to report start in ms
+  damage: number; // Raid damage done per second
+  healing: number; // Raid healing done per second
+}
+
+export interface ICachedRaidThroughput {
+  reportCode: string;
+  fightId: number;
+  bucketSize: number; // In ms
+  buckets: IThroughputBucket[];
+  lastUpdated: Date;
+}
+
+export interface IOverviewEvent {
+  fightId: number;
+  timestamp: number; // Relative to report start in ms
+  type: "Deaths" | "Casts";
+  abilityGameID?: number;
+  name?: string; // Ability name for casts, player name for deaths
+}
+
+export interface ICachedReportOverview {
+  reportCode: string;
+  events: IOverviewEvent[];
+  lastUpdated: Date;
+}
+
+export interface IPovSelection {
+  reportCode: string;
+  platform: "youtube" | "twitch";
+  videoId: string;
+  actorId: number;
+  actorName: string;
+  lastUpdated: Date;
+}
+
+export interface IWclUserSession {
+  sessionId: string;
+  wclUserId: number;
+  wclUserName: string;
+  accessToken: string;
+  refreshToken?: string;
+  tokenType: string;
+  expiresAt: Date;
+  createdAt: Date;
+  lastUsed: Date;
+}
+
+export interface ISession {
+  shareId: string;
+  editToken: string;
+  reportCodes: string[];
+  videos: ISessionVideo[];
+  offset: number;
+  syncAnchors: ISyncAnchor[];
+  selectedFightId?: number;
+  notes: string;
+  synced: boolean; // The reviewer synced the video by frame or anchors, not just kept a suggested offset
+  editorId?: string; // Browser that saved the session, to count each reviewer once
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+export interface ISessionVideo {
+  platform: "youtube" | "twitch";
+  videoId: string;
+  startSeconds?: number;
+}
+
+// A video moment pinned to a log moment, in seconds
+export interface ISyncAnchor {
+  videoTime: number;
+  wclTime: number;
+}
+
 // API Request/Response Types
 export interface ParseURLsRequest {
   wclUrl: string;
@@ -120,6 +228,81 @@ export interface GetEventsResponse {
   lastUpdated?: Date;
 }
 
+export interface DeathRecapEntry {
+  timestamp: number;
+  amount: number;
+  overkill?: number;
+  overheal?: number;
+  hitPoints?: number; // Health percent after the event
+  abilityGameID?: number;
+  abilityInfo?: { gameID: number; name: string; icon: string };
+  sourceInfo?: { id: number; name: string; type: string; subType?: string };
+}
+
+export interface GetDeathRecapResponse {
+  playerId: number;
+  playerInfo?: { id: number; name: string; type: string; subType?: string };
+  deathTimestamp: number;
+  windowStart: number;
+  damageTaken: DeathRecapEntry[];
+  healingReceived: DeathRecapEntry[];
+  activeDefensives: Array<{
+    spellId: number;
+    name: string;
+    type: "personal" | "external" | "raid";
+    appliedAt: number;
+    sourceInfo?: { id: number; name: string; type: string; subType?: string };
+  }>;
+  totalDamage: number;
+  totalHealing: number;
+}
+
+export interface GetPovResponse {
+  selection: IPovSelection | null;
+  suggestion: {
+    actorId: number;
+    name: string;
+    score: number;
+    matchedOn: string;
+  } | null;
+}
+
+export interface GetWclUserResponse {
+  loggedIn: boolean;
+  userName?: string;
+}
+
+// Every field is required on create; updates may send any subset
+export interface SaveSessionRequest {
+  reportCodes?: string[];
+  videos?: ISessionVideo[];
+  offset?: number;
+  syncAnchors?: ISyncAnchor[];
+  selectedFightId?: number | null; // null clears the selection
+  notes?: string;
+  synced?: boolean; // Once synced a session stays synced
+  editorId?: string;
+}
+
+// Offset most earlier reviews of the same report(s) and video agreed on
+export interface AlignmentSuggestion {
+  offset: number;
+  agreeingReviewers: number; // Reviewers whose synced offset is within a second of this one
+  totalReviewers: number;
+  lastUpdated: Date;
+}
+
+export interface GetAlignmentResponse {
+  suggestion: AlignmentSuggestion | null;
+}
+
+// The edit token is only returned to the creator
+export type SessionResponse = Omit<ISession, "editToken" | "editorId"> & { editToken?: string };
+
+export interface UpdatePovRequest {
+  actorId: number | null; // null clears the selection
+}
+
 // WCL API Types
 export interface WCLAccessTokenResponse {
   access_token: string;
@@ -160,6 +343,7 @@ export interface WCLFight {
   kill?: boolean;
   fightPercentage?: number;
   lastPhase?: number;
+  phaseTransitions?: IPhaseTransition[];
 }
 
 export interface WCLEventsResponse {
@@ -2,10 +2,12 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import WclLoginButton from "@/components/WclLoginButton";
 
 export default function Home() {
   const [wclUrl, setWclUrl] = useState("");
   const [vodUrl, setVodUrl] = useState("");
+  const [extraWclUrls, setExtraWclUrls] = useState(""); // One per line
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const router = useRouter();
@@ -25,6 +27,7 @@ export default function Home() {
         body: JSON.stringify({
           wclUrl,
           vodUrl,
+          extraWclUrls: extraWclUrls.split("\n").filter((url) => url.trim()),
         }),
       });
 
@@ -36,7 +39,7 @@ export default function Home() {
 
       // Navigate to timeline view with parsed data
       const params = new URLSearchParams({
-        wclCode: data.wcl.code,
+        wclCode: [data.wcl.code, ...(data.wcl.extraCodes || [])].join(","),
         vodPlatform: data.vod.platform,
         vodId: data.vod.id,
         ...(data.wcl.fight && { fightId: data.wcl.fight.toString() }),
@@ -78,6 +81,21 @@ export default function Home() {
                 <p className="text-sm text-gray-400 mt-1">Example: https://www.warcraftlogs.com/reports/8kYwQn2ZxjL6pR7v</p>
               </div>
 
+              <div>
+                <label htmlFor="extraWclUrls" className="block text-sm font-medium text-gray-200 mb-2">
+                  More Warcraft Logs URLs <span className="text-gray-400 font-normal">(optional)</span>
+                </label>
+                <textarea
+                  id="extraWclUrls"
+                  value={extraWclUrls}
+                  onChange={(e) => setExtraWclUrls(e.target.value)}
+                  placeholder="https://www.warcraftlogs.com/reports/..."
+                  rows={2}
+                  className="w-full px-3 py-2 border border-[#35354a] bg-[#232336] text-white rounded-lg shadow focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-[#101014] placeholder-gray-400 transition-all duration-150 focus:border-blue-500/80 hover:border-blue-500/60"
+                />
+                <p className="text-sm text-gray-400 mt-1">Raid split across several logs (crash, relog, second logger)? Add one URL per line to merge them.</p>
+              </div>
+
               <div>
                 <label htmlFor="vodUrl" className="block text-sm font-medium text-gray-200 mb-2">
                   YouTube VOD URL
@@ -104,6 +122,11 @@ export default function Home() {
                 {loading ? "Processing..." : "Create Timeline"}
               </button>
             </form>
+
+            {/* Private and guild-only reports need the viewer's own Warcraft Logs login */}
+            <div className="mt-6 text-center">
+              <WclLoginButton />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+// Share link of a saved review session: opens the timeline with the session's reports, video and sync
+export default function SharedSessionPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const openSession = async () => {
+      try {
+        const response = await fetch(`http://localhost:3001/api/sessions/${id}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load session");
+        }
+
+        // The timeline reviews one video; the first saved one
+        const [video] = data.videos;
+        const params = new URLSearchParams({
+          wclCode: data.reportCodes.join(","),
+          vodPlatform: video.platform,
+          vodId: video.videoId,
+          session: data.shareId,
+          ...(data.selectedFightId !== undefined && { fightId: data.selectedFightId.toString() }),
+          ...(video.startSeconds && { startSeconds: video.startSeconds.toString() }),
+        });
+
+        router.replace(`/timeline?${params.toString()}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load session");
+      }
+    };
+
+    openSession();
+  }, [id, router]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#101014] flex items-center justify-center">
+        <div className="bg-[#2a1313] border border-red-700 text-red-300 px-6 py-4 rounded-lg shadow">
+          <h3 className="font-semibold">Error</h3>
+          <p>{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#101014] flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+        <p className="text-gray-300">Loading session...</p>
+      </div>
+    </div>
+  );
+}
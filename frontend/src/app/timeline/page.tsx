@@ -3,34 +3,101 @@
 import { useSearchParams } from "next/navigation";
 import { useState, useEffect, useCallback, useRef, Suspense } from "react";
 import VideoPlayer, { VideoPlayerRef } from "@/components/VideoPlayer";
-import SuperTimeline from "@/components/SuperTimeline";
+import SuperTimeline, { KnownAlignment } from "@/components/SuperTimeline";
+import DeathRecapPanel, { DeathRecap } from "@/components/DeathRecapPanel";
+import RosterPanel, { RosterActor, PovSuggestion } from "@/components/RosterPanel";
+import ProgressionChart from "@/components/ProgressionChart";
+import WclLoginButton from "@/components/WclLoginButton";
+import { SyncAnchor, addSyncAnchor, videoToWclTime, wclToVideoTime } from "@/lib/syncMapping";
 // import TimelineAligner from "@/components/TimelineAligner"; // Integrated into SuperTimeline
 
+interface PhaseTransition {
+  id: number;
+  startTime: number; // Relative to report start in ms
+  name?: string;
+  isIntermission?: boolean;
+}
+
 interface Fight {
   id: number;
   name: string;
   startTime: number;
   endTime: number;
   boss?: number;
+  encounterID?: number;
   difficulty?: number;
   kill?: boolean;
+  fightPercentage?: number; // Boss health left when the pull ended
+  lastPhase?: number;
   iconUrl?: string | null;
+  phaseTransitions?: PhaseTransition[];
+  isTrash?: boolean; // Pull without an encounter
+  reportCode?: string; // Report the fight comes from in a merged session
+  reportFightId?: number; // Fight ID within that report
+  reportOffset?: number; // ms from the session start to that report's start
 }
 
 interface Event {
   timestamp: number;
-  type: "Deaths" | "Casts";
+  type: "Deaths" | "Casts" | "DamageTaken" | "Cooldowns" | "Interrupts" | "Dispels" | "Auras" | "RaidConsumables";
   sourceID?: number;
   targetID?: number;
   abilityGameID?: number;
+  extraAbilityGameID?: number;
+  amount?: number;
+  overkill?: number;
+  duration?: number;
+  cooldownType?: "personal" | "external" | "raid";
+  consumableType?: "bloodlust" | "battleRes" | "soulstone" | "potion" | "healing";
   ability?: {
     name: string;
     guid: number;
     type: number;
   };
+  sourceInfo?: { name: string };
+  targetInfo?: { name: string };
   data?: unknown;
 }
 
+interface BossHealthSeries {
+  actorId: number;
+  name: string;
+  points: { timestamp: number; percent: number }[];
+}
+
+interface ThroughputBucket {
+  timestamp: number;
+  damage: number;
+  healing: number;
+}
+
+// Seconds of the death recap window and how far before the death the video jumps
+const DEATH_RECAP_SECONDS = 10;
+const DEATH_RECAP_LEAD_SEC = 5;
+
+// How far the compared pull's video may drift from the main one before it is seeked back in line
+const COMPARISON_SYNC_TOLERANCE_SEC = 1;
+
+// localStorage key prefix of the edit tokens of review sessions created in this browser
+const SESSION_EDIT_TOKEN_PREFIX = "reviewSessionEditToken:";
+
+// localStorage key of this browser's reviewer ID, so its saved sessions count once in alignment suggestions
+const EDITOR_ID_KEY = "reviewEditorId";
+
+const getEditorId = () => {
+  const editorId = localStorage.getItem(EDITOR_ID_KEY) || crypto.randomUUID();
+  localStorage.setItem(EDITOR_ID_KEY, editorId);
+  return editorId;
+};
+
+interface OverviewEvent {
+  fightId: number;
+  timestamp: number;
+  type: "Deaths" | "Casts";
+  abilityGameID?: number;
+  name?: string;
+}
+
 interface ReportData {
   code: string;
   title: string;
@@ -38,16 +105,54 @@ interface ReportData {
   endTime: number;
   totalDuration: number;
   fights: Fight[];
+  reports?: { code: string; title: string; offset: number }[]; // Reports of a merged session, primary first
 }
 
+// Where a fight's data lives: fights of a merged session are fetched from their own report and shifted onto the session axis
+const getFightSource = (fight: Fight, wclCode: string) => ({ code: fight.reportCode || wclCode, fightId: fight.reportFightId ?? fight.id, offset: fight.reportOffset || 0 });
+
+const shiftTimestamps = <T extends { timestamp: number }>(items: T[], offset: number): T[] =>
+  offset ? items.map((item) => ({ ...item, timestamp: item.timestamp + offset })) : items;
+
+const shiftDeathRecap = (recap: DeathRecap, offset: number): DeathRecap => ({
+  ...recap,
+  deathTimestamp: recap.deathTimestamp + offset,
+  windowStart: recap.windowStart + offset,
+  damageTaken: shiftTimestamps(recap.damageTaken, offset),
+  healingReceived: shiftTimestamps(recap.healingReceived, offset),
+  activeDefensives: recap.activeDefensives.map((defensive) => ({ ...defensive, appliedAt: defensive.appliedAt + offset })),
+});
+
+// Short description of a pull for the comparison picker and video labels
+const getPullLabel = (fight: Fight) => {
+  const duration = fight.endTime - fight.startTime;
+  return `Pull #${fight.id} – ${fight.kill ? "Kill" : "Wipe"} (${Math.floor(duration / 60000)}:${String(Math.floor((duration % 60000) / 1000)).padStart(2, "0")})`;
+};
+
+// h:mm:ss (or m:ss) for video and log positions of sync anchors
+const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+};
+
 interface VideoMetadata {
   id: string;
   title: string;
   duration: number; // in seconds
   publishedAt?: string;
+  actualStartTime?: string; // Livestream broadcast start, far closer to the raid than the publish time
   createdAt?: string;
 }
 
+// Wall-clock time the first video frame was recorded, used for auto-sync
+const getVideoStartTime = (metadata: VideoMetadata | null) => {
+  const startTime = metadata?.actualStartTime || metadata?.publishedAt || metadata?.createdAt;
+  return startTime ? new Date(startTime).getTime() : 0;
+};
+
 export default function TimelinePage() {
   return (
     <Suspense
@@ -67,31 +172,67 @@ export default function TimelinePage() {
 
 function TimelineContent() {
   const searchParams = useSearchParams();
-  const wclCode = searchParams.get("wclCode");
+  // Several comma-separated codes merge the reports of one raid night into a session; the first is the primary report
+  const wclCodesParam = searchParams.get("wclCode");
+  const wclCode = wclCodesParam?.split(",")[0] || null;
+  const isMerged = !!wclCodesParam?.includes(",");
   const vodPlatform = searchParams.get("vodPlatform");
   const vodId = searchParams.get("vodId");
   const fightIdParam = searchParams.get("fightId");
   const startSecondsParam = searchParams.get("startSeconds");
+  const liveParam = searchParams.get("live");
+  const sessionParam = searchParams.get("session"); // Saved review session opened through its share link
 
   const [report, setReport] = useState<ReportData | null>(null);
   const [selectedFight, setSelectedFight] = useState<Fight | null>(null);
+  const [comparisonFight, setComparisonFight] = useState<Fight | null>(null); // Another pull of the same boss played alongside the selected one
+  const [comparisonStartSeconds, setComparisonStartSeconds] = useState<number>(0); // Where the compared pull's video starts, fixed when it is picked
   const [fightEvents, setFightEvents] = useState<Map<number, Event[]>>(new Map()); // Store events per fight
+  const [eventsProgress, setEventsProgress] = useState<Map<number, number>>(new Map()); // Loading progress (0..1) of fights still streaming events
+  const [fightBossHealth, setFightBossHealth] = useState<Map<number, BossHealthSeries[]>>(new Map()); // Store boss health per fight
+  const [fightThroughput, setFightThroughput] = useState<Map<number, ThroughputBucket[]>>(new Map()); // Store raid DPS/HPS per fight
+  const [overviewEvents, setOverviewEvents] = useState<OverviewEvent[]>([]); // Deaths and boss casts of every pull
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [offset, setOffset] = useState<number>(0);
+  const [syncAnchors, setSyncAnchors] = useState<SyncAnchor[]>([]); // Replace the constant offset once placed, to follow cuts and drift
+  const [userSynced, setUserSynced] = useState(false); // Synced by frame or anchors here, not just a suggested offset
+  const [pendingAnchorVideoTime, setPendingAnchorVideoTime] = useState<number | null>(null); // Video moment waiting for its log moment to be clicked
+  const [frameSyncTarget, setFrameSyncTarget] = useState<string>(""); // Log time in ms of the pull start or death the paused frame shows
   const [currentVideoTime, setCurrentVideoTime] = useState<number>(0);
   const [videoMetadata, setVideoMetadata] = useState<VideoMetadata | null>(null);
+  const [showDeathRecap, setShowDeathRecap] = useState(false);
+  const [deathRecap, setDeathRecap] = useState<DeathRecap | null>(null);
+  const [deathRecapLoading, setDeathRecapLoading] = useState(false);
+  const [roster, setRoster] = useState<RosterActor[]>([]);
+  const [selectedPlayerIds, setSelectedPlayerIds] = useState<Set<number>>(new Set()); // Empty shows every player
+  const [povActorId, setPovActorId] = useState<number | null>(null);
+  const [povSuggestion, setPovSuggestion] = useState<PovSuggestion | null>(null);
+  const [showProgression, setShowProgression] = useState(true);
+  const [isLive, setIsLive] = useState(liveParam === "1"); // Follow a report that is still being logged
+  const [latestLiveFight, setLatestLiveFight] = useState<Fight | null>(null); // Newest pull that arrived while following live
+  const [notes, setNotes] = useState("");
+  const [shareUrl, setShareUrl] = useState<string | null>(null); // Link of the last saved session
+  const [sessionSaving, setSessionSaving] = useState(false);
+  const [knownAlignment, setKnownAlignment] = useState<KnownAlignment | null>(null); // Offset earlier reviews of this report and video agreed on
 
   const playerRef = useRef<VideoPlayerRef>(null);
+  const comparisonPlayerRef = useRef<VideoPlayerRef>(null);
+  const eventStreamsRef = useRef<Map<number, EventSource>>(new Map()); // Open event streams per fight
+  const savedSyncVideoRef = useRef<string | null>(null); // Video a saved session's sync was loaded for, which auto-sync leaves alone
+  const reportFightCountRef = useRef(0); // Fights on the page, sent when following live so pulls missing from a cached report are pushed
 
   // Load report data
   useEffect(() => {
-    if (!wclCode) return;
+    if (!wclCodesParam) return;
 
     const loadReport = async () => {
       try {
         setLoading(true);
-        const response = await fetch(`http://localhost:3001/api/wcl/reports/${wclCode}`);
+        const response = await fetch(
+          isMerged ? `http://localhost:3001/api/wcl/merged-reports?codes=${encodeURIComponent(wclCodesParam)}` : `http://localhost:3001/api/wcl/reports/${wclCodesParam}`,
+          { credentials: "include" }
+        );
         const data = await response.json();
 
         if (!response.ok) {
@@ -117,7 +258,146 @@ function TimelineContent() {
     };
 
     loadReport();
-  }, [wclCode, fightIdParam]);
+  }, [wclCodesParam, isMerged, fightIdParam]);
+
+  const reportLoaded = report !== null;
+  useEffect(() => {
+    reportFightCountRef.current = report?.fights.length ?? 0;
+  }, [report]);
+
+  // Follow the report live: new pulls are pushed over Server-Sent Events while logging continues
+  useEffect(() => {
+    if (!wclCode || !isLive || isMerged || !reportLoaded) return;
+
+    const params = new URLSearchParams({ fightCount: String(reportFightCountRef.current) });
+    const source = new EventSource(`http://localhost:3001/api/wcl/reports/${wclCode}/live?${params}`, { withCredentials: true });
+
+    source.addEventListener("fights", (message) => {
+      const data = JSON.parse((message as MessageEvent).data);
+
+      setReport((prev) => (prev ? { ...prev, fights: data.fights, endTime: data.endTime, totalDuration: data.totalDuration } : prev));
+
+      const newFights = data.fights.filter((fight: Fight) => data.newFightIds.includes(fight.id));
+      if (newFights.length > 0) {
+        setLatestLiveFight(newFights[newFights.length - 1]);
+      }
+    });
+
+    return () => source.close();
+  }, [wclCode, isLive, isMerged, reportLoaded]);
+
+  // Load the whole-report overview (of every report in a merged session)
+  useEffect(() => {
+    if (!report) return;
+
+    const loadOverview = async () => {
+      try {
+        const sources = report.reports || [{ code: report.code, offset: 0 }];
+        const overviews = await Promise.all(
+          sources.map(async (source) => {
+            const response = await fetch(`http://localhost:3001/api/wcl/reports/${source.code}/overview`, { credentials: "include" });
+            const data = await response.json();
+
+            if (!response.ok) {
+              throw new Error(data.error || "Failed to load report overview");
+            }
+
+            return { source, events: (data.events || []) as OverviewEvent[] };
+          })
+        );
+
+        // Move events onto the session's fights, dropping pulls another report already covers
+        setOverviewEvents(
+          overviews.flatMap(({ source, events }) =>
+            events.flatMap((event) => {
+              const fight = report.fights.find((f) => (f.reportCode || report.code) === source.code && (f.reportFightId ?? f.id) === event.fightId);
+              return fight ? [{ ...event, fightId: fight.id, timestamp: event.timestamp + source.offset }] : [];
+            })
+          )
+        );
+      } catch (err) {
+        console.error("Failed to load report overview:", err);
+      }
+    };
+
+    loadOverview();
+  }, [report]);
+
+  // Load raid roster
+  useEffect(() => {
+    if (!wclCode) return;
+
+    const loadRoster = async () => {
+      try {
+        const response = await fetch(`http://localhost:3001/api/wcl/reports/${wclCode}/actors`, { credentials: "include" });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load roster");
+        }
+
+        setRoster(data.actors || []);
+      } catch (err) {
+        console.error("Failed to load roster:", err);
+      }
+    };
+
+    loadRoster();
+  }, [wclCode]);
+
+  // Load the sync and notes of a saved review session (sessions have no lock state: frame sync replaced the lockable sync bars)
+  useEffect(() => {
+    if (!sessionParam) return;
+
+    const loadSession = async () => {
+      try {
+        const response = await fetch(`http://localhost:3001/api/sessions/${sessionParam}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load session");
+        }
+
+        savedSyncVideoRef.current = `${data.videos[0].platform}:${data.videos[0].videoId}`;
+        setOffset(data.offset);
+        setSyncAnchors(data.syncAnchors || []);
+        setNotes(data.notes || "");
+      } catch (err) {
+        console.error("Failed to load session:", err);
+      }
+    };
+
+    loadSession();
+  }, [sessionParam]);
+
+  // Start new viewers with the offset earlier reviews were saved with; an opened session brings its own sync
+  useEffect(() => {
+    if (!wclCodesParam || !vodPlatform || !vodId || sessionParam) return;
+
+    const loadAlignment = async () => {
+      try {
+        const params = new URLSearchParams({ codes: wclCodesParam, platform: vodPlatform, videoId: vodId });
+        const response = await fetch(`http://localhost:3001/api/sessions/alignment?${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load alignment suggestion");
+        }
+
+        if (data.suggestion) {
+          const { offset, agreeingReviewers, lastUpdated } = data.suggestion;
+          setKnownAlignment({
+            offset,
+            source: agreeingReviewers > 1 ? `${agreeingReviewers} reviewers` : `a review saved ${new Date(lastUpdated).toLocaleDateString()}`,
+          });
+        }
+      } catch (err) {
+        console.error("Failed to load alignment suggestion:", err);
+      }
+    };
+
+    loadAlignment();
+  }, [wclCodesParam, vodPlatform, vodId, sessionParam]);
 
   // Load video metadata
   useEffect(() => {
@@ -142,87 +422,438 @@ function TimelineContent() {
     loadVideoMetadata();
   }, [vodPlatform, vodId]);
 
-  // Load events for selected fight
+  // Load the saved POV character, and a suggestion once the channel name is known from the video metadata
+  useEffect(() => {
+    if (!wclCode || !vodPlatform || !vodId || !videoMetadata) return;
+
+    const loadPov = async () => {
+      try {
+        const response = await fetch(`http://localhost:3001/api/wcl/reports/${wclCode}/pov/${vodPlatform}/${vodId}`, { credentials: "include" });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load POV character");
+        }
+
+        setPovActorId(data.selection?.actorId ?? null);
+        setPovSuggestion(data.suggestion);
+      } catch (err) {
+        console.error("Failed to load POV character:", err);
+      }
+    };
+
+    loadPov();
+  }, [wclCode, vodPlatform, vodId, videoMetadata]);
+
+  // Stream a fight's events into fightEvents, page by page so the timeline fills in while long fights are still loading
+  const streamFightEvents = useCallback((code: string, fight: Fight) => {
+    const fightId = fight.id;
+    const fightSource = getFightSource(fight, code);
+    const params = new URLSearchParams({
+      fightId: String(fightSource.fightId),
+      startTime: String(fight.startTime - fightSource.offset),
+      endTime: String(fight.endTime - fightSource.offset),
+      eventTypes: ["Deaths", "Casts", "DamageTaken", "Cooldowns", "Interrupts", "Dispels", "Auras", "RaidConsumables"].join(","),
+    });
+    const source = new EventSource(`http://localhost:3001/api/wcl/reports/${fightSource.code}/events/stream?${params}`, { withCredentials: true });
+    eventStreamsRef.current.set(fightId, source);
+
+    const finish = () => {
+      source.close();
+      eventStreamsRef.current.delete(fightId);
+      setEventsProgress((prev) => {
+        const newMap = new Map(prev);
+        newMap.delete(fightId);
+        return newMap;
+      });
+    };
+
+    source.addEventListener("page", (message) => {
+      const page = JSON.parse((message as MessageEvent).data);
+
+      // Append this page's events for the fight
+      setFightEvents((prev) => {
+        const newMap = new Map(prev);
+        newMap.set(fightId, [...(prev.get(fightId) || []), ...shiftTimestamps<Event>(page.events, fightSource.offset)]);
+        return newMap;
+      });
+      setEventsProgress((prev) => new Map(prev).set(fightId, page.progress));
+    });
+
+    source.addEventListener("done", (message) => {
+      const data = JSON.parse((message as MessageEvent).data);
+      console.log("Loaded events for fight", fightId, ":", data.events?.length, "events", data.events?.slice(0, 3));
+
+      // The complete list replaces the streamed pages (debuff durations are final only now)
+      setFightEvents((prev) => {
+        const newMap = new Map(prev);
+        newMap.set(fightId, shiftTimestamps<Event>(data.events || [], fightSource.offset));
+        console.log("Stored events in map, total fights with events:", newMap.size);
+        return newMap;
+      });
+      finish();
+    });
+
+    source.addEventListener("error", (message) => {
+      // Server-sent error messages carry data, connection failures do not
+      const data = (message as MessageEvent).data;
+      console.error("Failed to load events:", data ? JSON.parse(data).error : "connection lost");
+
+      // Keep the pages streamed so far; a fight with none gets an empty list so it is not retried in a loop
+      setFightEvents((prev) => (prev.has(fightId) ? prev : new Map(prev).set(fightId, [])));
+      finish();
+    });
+  }, []);
+
+  // Load events for the selected and the compared fight
+  useEffect(() => {
+    if (!wclCode) return;
+
+    [selectedFight, comparisonFight].forEach((fight) => {
+      // Check if we already have (or are streaming) events for this fight
+      if (!fight || fightEvents.has(fight.id) || eventStreamsRef.current.has(fight.id)) {
+        return;
+      }
+
+      streamFightEvents(wclCode, fight);
+    });
+  }, [wclCode, selectedFight, comparisonFight, fightEvents, streamFightEvents]);
+
+  // Close event streams that are still open when leaving the page
+  useEffect(() => {
+    const streams = eventStreamsRef.current;
+    return () => {
+      streams.forEach((source) => source.close());
+      streams.clear();
+    };
+  }, []);
+
+  // Load boss health for selected fight
   useEffect(() => {
     if (!wclCode || !selectedFight) return;
 
-    // Check if we already have events for this fight
-    if (fightEvents.has(selectedFight.id)) {
+    // Check if we already have boss health for this fight
+    if (fightBossHealth.has(selectedFight.id)) {
       return;
     }
 
-    const loadEvents = async () => {
+    const loadBossHealth = async () => {
       try {
-        const response = await fetch(`http://localhost:3001/api/wcl/reports/${wclCode}/events`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            fightId: selectedFight.id,
-            startTime: selectedFight.startTime,
-            endTime: selectedFight.endTime,
-            eventTypes: ["Deaths", "Casts"],
-          }),
+        const source = getFightSource(selectedFight, wclCode);
+        const response = await fetch(`http://localhost:3001/api/wcl/reports/${source.code}/fights/${source.fightId}/boss-health`, { credentials: "include" });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load boss health");
+        }
+
+        setFightBossHealth((prev) => {
+          const newMap = new Map(prev);
+          newMap.set(
+            selectedFight.id,
+            (data.series || []).map((series: BossHealthSeries) => ({ ...series, points: shiftTimestamps(series.points, source.offset) }))
+          );
+          return newMap;
         });
+      } catch (err) {
+        console.error("Failed to load boss health:", err);
+      }
+    };
+
+    loadBossHealth();
+  }, [wclCode, selectedFight, fightBossHealth]);
+
+  // Load raid throughput for selected fight
+  useEffect(() => {
+    if (!wclCode || !selectedFight) return;
+
+    // Check if we already have throughput for this fight
+    if (fightThroughput.has(selectedFight.id)) {
+      return;
+    }
 
+    const loadThroughput = async () => {
+      try {
+        const source = getFightSource(selectedFight, wclCode);
+        const response = await fetch(`http://localhost:3001/api/wcl/reports/${source.code}/fights/${source.fightId}/throughput`, { credentials: "include" });
         const data = await response.json();
 
         if (!response.ok) {
-          throw new Error(data.error || "Failed to load events");
+          throw new Error(data.error || "Failed to load raid throughput");
         }
 
-        console.log("Loaded events for fight", selectedFight.id, ":", data.events?.length, "events", data.events?.slice(0, 3));
-
-        // Store events for this fight
-        setFightEvents((prev) => {
+        setFightThroughput((prev) => {
           const newMap = new Map(prev);
-          newMap.set(selectedFight.id, data.events || []);
-          console.log("Stored events in map, total fights with events:", newMap.size);
+          newMap.set(selectedFight.id, shiftTimestamps<ThroughputBucket>(data.buckets || [], source.offset));
           return newMap;
         });
       } catch (err) {
-        console.error("Failed to load events:", err);
+        console.error("Failed to load raid throughput:", err);
       }
     };
 
-    loadEvents();
-  }, [wclCode, selectedFight, fightEvents]);
+    loadThroughput();
+  }, [wclCode, selectedFight, fightThroughput]);
 
   const handleFightSelect = useCallback(
     (fightId: number) => {
       const fight = report?.fights.find((f) => f.id === fightId);
       if (fight) {
         setSelectedFight(fight);
+
+        // Only pulls of the same boss can be compared
+        setComparisonFight((prev) => (prev && prev.id !== fight.id && prev.encounterID === fight.encounterID ? prev : null));
       }
     },
     [report]
   );
 
+  const handleComparisonSelect = useCallback(
+    (fightId: number | null) => {
+      const fight = report?.fights.find((f) => f.id === fightId) || null;
+      if (fight && selectedFight) {
+        // Start the compared pull's video at the same point into the pull as the main video
+        const wclTime = videoToWclTime(currentVideoTime, offset, syncAnchors) + (fight.startTime - selectedFight.startTime) / 1000;
+        setComparisonStartSeconds(Math.max(0, wclToVideoTime(wclTime, offset, syncAnchors)));
+      }
+      setComparisonFight(fight);
+    },
+    [report, selectedFight, currentVideoTime, offset, syncAnchors]
+  );
+
+  // Keep the compared pull's video at the same point into its pull as the main video
+  useEffect(() => {
+    if (!selectedFight || !comparisonFight || !comparisonPlayerRef.current) return;
+
+    const wclTime = videoToWclTime(currentVideoTime, offset, syncAnchors) + (comparisonFight.startTime - selectedFight.startTime) / 1000;
+    const targetTime = wclToVideoTime(wclTime, offset, syncAnchors);
+    if (Math.abs(comparisonPlayerRef.current.getCurrentTime() - targetTime) > COMPARISON_SYNC_TOLERANCE_SEC) {
+      comparisonPlayerRef.current.seekTo(Math.max(0, targetTime));
+    }
+  }, [currentVideoTime, selectedFight, comparisonFight, offset, syncAnchors]);
+
+  // Play and pause the compared pull's video together with the main one
+  const handlePlayingChange = useCallback((playing: boolean) => {
+    if (playing) {
+      comparisonPlayerRef.current?.play();
+    } else {
+      comparisonPlayerRef.current?.pause();
+    }
+  }, []);
+
+  // Anchors placed, removed or cleared by the reviewer
+  const editSyncAnchors = useCallback((update: (prev: SyncAnchor[]) => SyncAnchor[]) => {
+    setSyncAnchors(update);
+    setUserSynced(true);
+  }, []);
+
   const handleTimelineClick = useCallback(
     (eventTime: number) => {
+      // While placing an anchor the clicked log moment is pinned to the paused video moment instead of seeking
+      if (pendingAnchorVideoTime !== null) {
+        editSyncAnchors((prev) => addSyncAnchor(prev, { videoTime: pendingAnchorVideoTime, wclTime: eventTime }));
+        setPendingAnchorVideoTime(null);
+        return;
+      }
+
       if (playerRef.current) {
         // eventTime is the WCL time (relative to report start)
         // Formula: wclTime = videoTime + offset
-        // So: videoTime = wclTime - offset
-        const videoTime = eventTime - offset;
-        console.log("handleTimelineClick:", { eventTime, offset, videoTime, calculation: `${eventTime} - ${offset} = ${videoTime}` });
+        // So: videoTime = wclTime - offset, or piecewise between sync anchors
+        const videoTime = wclToVideoTime(eventTime, offset, syncAnchors);
+        console.log("handleTimelineClick:", { eventTime, offset, anchors: syncAnchors.length, videoTime });
         playerRef.current.seekTo(videoTime);
       }
     },
-    [offset]
+    [offset, syncAnchors, pendingAnchorVideoTime, editSyncAnchors]
   );
 
-  const handleOffsetChange = useCallback((newOffset: number) => {
-    setOffset(newOffset);
+  // Sync so the paused frame shows the picked pull start or death: offset = wclTime - videoTime
+  const handleFrameSync = useCallback(() => {
+    if (!playerRef.current || frameSyncTarget === "") return;
+
+    setOffset(Number(frameSyncTarget) / 1000 - playerRef.current.getCurrentTime());
+    setSyncAnchors([]); // A single sync point replaces any anchors
+    setUserSynced(true);
+    setFrameSyncTarget("");
+  }, [frameSyncTarget]);
+
+  // Pause on the current frame and wait for the matching log moment to be clicked on the timeline
+  const handleAnchorStart = useCallback(() => {
+    if (!playerRef.current) return;
+
+    playerRef.current.pause();
+    setPendingAnchorVideoTime(playerRef.current.getCurrentTime());
+  }, []);
+
+  const handleDeathSelect = useCallback(
+    async (death: Event) => {
+      // A death clicked while placing an anchor pins the moment of death
+      if (pendingAnchorVideoTime !== null) {
+        handleTimelineClick(death.timestamp / 1000);
+        return;
+      }
+
+      // Jump a few seconds before the death so the lead-up is visible
+      handleTimelineClick(Math.max(0, death.timestamp / 1000 - DEATH_RECAP_LEAD_SEC));
+
+      if (!wclCode || !selectedFight || death.targetID === undefined) return;
+
+      setShowDeathRecap(true);
+      setDeathRecap(null);
+      setDeathRecapLoading(true);
+
+      try {
+        const source = getFightSource(selectedFight, wclCode);
+        const params = new URLSearchParams({ playerId: String(death.targetID), timestamp: String(death.timestamp - source.offset), seconds: String(DEATH_RECAP_SECONDS) });
+        const response = await fetch(`http://localhost:3001/api/wcl/reports/${source.code}/fights/${source.fightId}/death-recap?${params}`, { credentials: "include" });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load death recap");
+        }
+
+        setDeathRecap(shiftDeathRecap(data, source.offset));
+      } catch (err) {
+        console.error("Failed to load death recap:", err);
+      } finally {
+        setDeathRecapLoading(false);
+      }
+    },
+    [wclCode, selectedFight, pendingAnchorVideoTime, handleTimelineClick]
+  );
+
+  // Open a pull from the progression chart or a live notice: select it and jump the video to its start
+  const handleFightOpen = useCallback(
+    (fightId: number) => {
+      const fight = report?.fights.find((f) => f.id === fightId);
+      if (!fight) return;
+
+      handleFightSelect(fightId);
+      handleTimelineClick(fight.startTime / 1000);
+    },
+    [report, handleFightSelect, handleTimelineClick]
+  );
+
+  const handlePlayerToggle = useCallback((actorId: number) => {
+    setSelectedPlayerIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(actorId)) {
+        next.delete(actorId);
+      } else {
+        next.add(actorId);
+      }
+      return next;
+    });
   }, []);
 
-  const getCurrentFightEvents = useCallback(() => {
-    if (!selectedFight) return [];
-    const events = fightEvents.get(selectedFight.id) || [];
-    console.log("getCurrentFightEvents for fight", selectedFight.id, ":", events.length, "events");
-    return events;
-  }, [selectedFight, fightEvents]);
+  const handlePovChange = useCallback(
+    async (actorId: number | null) => {
+      setPovActorId(actorId);
+
+      try {
+        const response = await fetch(`http://localhost:3001/api/wcl/reports/${wclCode}/pov/${vodPlatform}/${vodId}`, {
+          method: "PUT",
+          credentials: "include",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ actorId }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to save POV character");
+        }
+      } catch (err) {
+        console.error("Failed to save POV character:", err);
+      }
+    },
+    [wclCode, vodPlatform, vodId]
+  );
+
+  // Auto-sync, which may finish after the session loaded, must not overwrite the saved sync; another video auto-syncs as usual
+  const handleOffsetChange = useCallback(
+    (newOffset: number) => {
+      if (savedSyncVideoRef.current === `${vodPlatform}:${vodId}`) return;
+      setOffset(newOffset);
+    },
+    [vodPlatform, vodId]
+  );
+
+  // Save the review and copy its share link; the session is updated if this browser created it, otherwise a new one is made
+  const handleSessionSave = useCallback(async () => {
+    if (!wclCodesParam || !vodPlatform || !vodId) return;
+
+    setSessionSaving(true);
+
+    try {
+      const editToken = sessionParam ? localStorage.getItem(`${SESSION_EDIT_TOKEN_PREFIX}${sessionParam}`) : null;
+      const canUpdate = !!sessionParam && !!editToken;
+
+      const response = await fetch(canUpdate ? `http://localhost:3001/api/sessions/${sessionParam}` : "http://localhost:3001/api/sessions", {
+        method: canUpdate ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(editToken && { "X-Session-Edit-Token": editToken }),
+        },
+        body: JSON.stringify({
+          reportCodes: wclCodesParam.split(","),
+          videos: [{ platform: vodPlatform, videoId: vodId, ...(startSecondsParam && { startSeconds: parseFloat(startSecondsParam) }) }],
+          offset,
+          syncAnchors,
+          selectedFightId: selectedFight?.id ?? null,
+          notes,
+          synced: userSynced,
+          editorId: getEditorId(),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save session");
+      }
+
+      localStorage.setItem(`${SESSION_EDIT_TOKEN_PREFIX}${data.shareId}`, data.editToken);
+
+      // Keep the session in the URL so a reload reopens it
+      const url = new URL(window.location.href);
+      url.searchParams.set("session", data.shareId);
+      window.history.replaceState(null, "", url.toString());
+
+      const link = `${window.location.origin}/s/${data.shareId}`;
+      setShareUrl(link);
+      await navigator.clipboard.writeText(link).catch(() => {});
+    } catch (err) {
+      console.error("Failed to save session:", err);
+    } finally {
+      setSessionSaving(false);
+    }
+  }, [wclCodesParam, vodPlatform, vodId, startSecondsParam, sessionParam, offset, syncAnchors, selectedFight, notes, userSynced]);
+
+  const getFightEvents = useCallback(
+    (fight: Fight | null) => {
+      if (!fight) return [];
+      const events = fightEvents.get(fight.id) || [];
+      console.log("getFightEvents for fight", fight.id, ":", events.length, "events");
+
+      // Only keep events sourced by or targeting the selected players, matched by name since actor IDs differ between merged reports
+      if (selectedPlayerIds.size > 0) {
+        const selectedNames = new Set(roster.filter((actor) => selectedPlayerIds.has(actor.id)).map((actor) => actor.name));
+        return events.filter((event) => selectedNames.has(event.sourceInfo?.name || "") || selectedNames.has(event.targetInfo?.name || ""));
+      }
+
+      return events;
+    },
+    [fightEvents, selectedPlayerIds, roster]
+  );
+
+  // Deaths of the selected pull, offered as sync points
+  const selectedFightDeaths = selectedFight ? (fightEvents.get(selectedFight.id) || []).filter((event) => event.type === "Deaths") : [];
+
+  // Other pulls of the selected boss
+  const comparisonCandidates =
+    selectedFight && !selectedFight.isTrash ? (report?.fights || []).filter((f) => f.encounterID === selectedFight.encounterID && f.id !== selectedFight.id) : [];
 
   if (loading) {
     return (
@@ -241,6 +872,9 @@ function TimelineContent() {
         <div className="bg-[#2a1313] border border-red-700 text-red-300 px-6 py-4 rounded-lg shadow">
           <h3 className="font-semibold">Error</h3>
           <p>{error}</p>
+          <div className="mt-3">
+            <WclLoginButton />
+          </div>
         </div>
       </div>
     );
@@ -261,31 +895,114 @@ function TimelineContent() {
     <div className="min-h-screen bg-[#101014] flex justify-center">
       <div className="w-[90vw] px-6 py-10">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-white mb-2 drop-shadow-lg">{report.title}</h1>
-          <p className="text-gray-300">
-            Report: {wclCode}
-            {selectedFight && (
-              <>
-                {" "}
-                | Fight: {selectedFight.name} | Duration: {Math.round((selectedFight.endTime - selectedFight.startTime) / 60000)}m{" "}
-                {Math.round(((selectedFight.endTime - selectedFight.startTime) % 60000) / 1000)}s
-              </>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2 drop-shadow-lg">{report.title}</h1>
+            <p className="text-gray-300">
+              {isMerged ? `Reports: ${report.reports?.map((source) => source.code).join(" + ")}` : `Report: ${wclCode}`}
+              {selectedFight && (
+                <>
+                  {" "}
+                  | Fight: {selectedFight.name} | Duration: {Math.round((selectedFight.endTime - selectedFight.startTime) / 60000)}m{" "}
+                  {Math.round(((selectedFight.endTime - selectedFight.startTime) % 60000) / 1000)}s
+                </>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <WclLoginButton />
+            <button
+              onClick={handleSessionSave}
+              disabled={sessionSaving}
+              className="px-3 py-1 text-sm rounded border bg-[#1a1a2e] text-gray-300 border-[#35354a] hover:text-white disabled:opacity-50"
+              title="Save the sync, selected pull and notes, and copy a link for the raid"
+            >
+              {sessionSaving ? "Saving..." : "🔗 Save & share"}
+            </button>
+            {/* Live following replaces the fight list, so it is only offered for single reports */}
+            {!isMerged && (
+              <button
+                onClick={() => setIsLive((prev) => !prev)}
+                className={`px-3 py-1 text-sm rounded border ${isLive ? "bg-red-600 text-white border-red-500" : "bg-[#1a1a2e] text-gray-300 border-[#35354a] hover:text-white"}`}
+                title={isLive ? "Stop following new pulls" : "Follow new pulls while the raid is still logging"}
+              >
+                {isLive ? "🔴 Live" : "Follow live"}
+              </button>
             )}
-          </p>
+          </div>
         </div>
 
-        {/* Video Player (responsive 16:9, no extra space) */}
-        <div className="mb-8">
-          <div className="w-full max-w-6xl mx-auto bg-black rounded-xl overflow-hidden shadow-lg" style={{ aspectRatio: "16 / 9" }}>
-            <VideoPlayer
-              ref={playerRef}
-              platform={vodPlatform as "youtube" | "twitch"}
-              videoId={vodId}
-              startSeconds={startSecondsParam ? parseInt(startSecondsParam) : 0}
-              onTimeUpdate={setCurrentVideoTime}
-            />
+        {/* Link of the saved session */}
+        {shareUrl && (
+          <div className="mb-8 flex items-center justify-between bg-[#1a1a2e] border border-[#35354a] rounded-lg px-4 py-2 text-sm">
+            <span className="text-gray-300">
+              Session saved, link copied:{" "}
+              <a href={shareUrl} className="text-blue-400 hover:text-blue-300">
+                {shareUrl}
+              </a>
+            </span>
+            <button onClick={() => setShareUrl(null)} className="text-gray-400 hover:text-white" title="Dismiss">
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* Newest pull of a live report */}
+        {latestLiveFight && (
+          <div className="mb-8 flex items-center justify-between bg-[#2a1a1a] border border-red-800 rounded-lg px-4 py-2 text-sm">
+            <span className="text-gray-200">
+              🔴 New pull: {latestLiveFight.name} – {getPullLabel(latestLiveFight)}
+            </span>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => {
+                  handleFightOpen(latestLiveFight.id);
+                  setLatestLiveFight(null);
+                }}
+                className="text-red-300 hover:text-white"
+              >
+                Review
+              </button>
+              <button onClick={() => setLatestLiveFight(null)} className="text-gray-400 hover:text-white" title="Dismiss">
+                ✕
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Video Player (responsive 16:9, no extra space) with the death recap beside it */}
+        <div className="mb-8 flex gap-6">
+          <div className={`flex-1 min-w-0 ${comparisonFight ? "grid grid-cols-2 gap-4" : ""}`}>
+            <div>
+              {comparisonFight && selectedFight && <p className="text-sm text-gray-300 mb-2">{getPullLabel(selectedFight)}</p>}
+              <div className="w-full max-w-6xl mx-auto bg-black rounded-xl overflow-hidden shadow-lg" style={{ aspectRatio: "16 / 9" }}>
+                <VideoPlayer
+                  ref={playerRef}
+                  platform={vodPlatform as "youtube" | "twitch"}
+                  videoId={vodId}
+                  startSeconds={startSecondsParam ? parseInt(startSecondsParam) : 0}
+                  onTimeUpdate={setCurrentVideoTime}
+                  onPlayingChange={handlePlayingChange}
+                />
+              </div>
+            </div>
+
+            {/* Compared pull, kept in sync with the main video */}
+            {comparisonFight && (
+              <div>
+                <p className="text-sm text-violet-300 mb-2">↔ {getPullLabel(comparisonFight)}</p>
+                <div className="w-full bg-black rounded-xl overflow-hidden shadow-lg" style={{ aspectRatio: "16 / 9" }}>
+                  <VideoPlayer ref={comparisonPlayerRef} platform={vodPlatform as "youtube" | "twitch"} videoId={vodId} startSeconds={comparisonStartSeconds} />
+                </div>
+              </div>
+            )}
           </div>
+
+          {showDeathRecap && (
+            <div className="w-96 shrink-0">
+              <DeathRecapPanel recap={deathRecap} loading={deathRecapLoading} onClose={() => setShowDeathRecap(false)} onSeek={handleTimelineClick} />
+            </div>
+          )}
         </div>
 
         {/* Timeline Aligner - Commented out as it's now integrated into SuperTimeline
@@ -302,21 +1019,164 @@ function TimelineContent() {
         )}
         */}
 
+        {/* Progression per boss */}
+        {report.fights.some((fight) => !fight.isTrash) && (
+          <div className="bg-[#181824] rounded-2xl shadow-xl p-6 mb-8 border border-[#35354a]">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="font-semibold text-gray-100">📈 Progression</h3>
+                <p className="text-xs text-gray-400">Boss health reached on every pull</p>
+              </div>
+              <button onClick={() => setShowProgression((prev) => !prev)} className="text-xs text-gray-400 hover:text-white">
+                {showProgression ? "Hide" : "Show"}
+              </button>
+            </div>
+            {showProgression && <ProgressionChart fights={report.fights} selectedFightId={selectedFight?.id || null} onFightSelect={handleFightOpen} />}
+          </div>
+        )}
+
+        {/* Notes saved with the session */}
+        <div className="bg-[#181824] rounded-2xl shadow-xl p-6 mb-8 border border-[#35354a]">
+          <h3 className="font-semibold text-gray-100 mb-3">📝 Notes</h3>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            placeholder="Callouts, mistakes to review, plans for the next pull… saved with Save & share"
+            className="w-full bg-[#1a1a2e] border border-[#35354a] rounded px-3 py-2 text-sm text-gray-100 placeholder-gray-500"
+          />
+        </div>
+
+        {/* Roster */}
+        {roster.length > 0 && (
+          <div className="bg-[#181824] rounded-2xl shadow-xl p-6 mb-8 border border-[#35354a]">
+            <RosterPanel
+              actors={roster}
+              selectedIds={selectedPlayerIds}
+              onToggle={handlePlayerToggle}
+              onClear={() => setSelectedPlayerIds(new Set())}
+              povActorId={povActorId}
+              povSuggestion={povSuggestion}
+              onPovChange={handlePovChange}
+            />
+          </div>
+        )}
+
         {/* Super Timeline */}
         <div className="bg-[#181824] rounded-2xl shadow-xl p-6 border border-[#35354a]">
+          {comparisonCandidates.length > 0 && (
+            <div className="mb-3 flex items-center gap-2 text-sm">
+              <span className="text-gray-300">↔ Compare with</span>
+              <select
+                value={comparisonFight?.id ?? ""}
+                onChange={(e) => handleComparisonSelect(e.target.value === "" ? null : parseInt(e.target.value))}
+                className="bg-[#1a1a2e] border border-[#35354a] rounded px-2 py-1 text-gray-100 text-sm"
+              >
+                <option value="">No comparison</option>
+                {comparisonCandidates.map((fight) => (
+                  <option key={fight.id} value={fight.id}>
+                    {getPullLabel(fight)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="mb-3 flex items-center flex-wrap gap-2 text-sm">
+            <span className="text-gray-300" title="Pause the video where a pull visibly starts or a player dies, then pick that moment">
+              🎯 This frame is
+            </span>
+            <select
+              value={frameSyncTarget}
+              onChange={(e) => setFrameSyncTarget(e.target.value)}
+              className="bg-[#1a1a2e] border border-[#35354a] rounded px-2 py-1 text-gray-100 text-sm"
+            >
+              <option value="">Pick a pull or death…</option>
+              <optgroup label="Pull start">
+                {report.fights.map((fight) => (
+                  <option key={fight.id} value={fight.startTime}>
+                    Pull of #{fight.id} {fight.name}
+                  </option>
+                ))}
+              </optgroup>
+              {selectedFight && selectedFightDeaths.length > 0 && (
+                <optgroup label={`Deaths in #${selectedFight.id}`}>
+                  {selectedFightDeaths.map((death) => (
+                    <option key={`${death.timestamp}-${death.targetID}`} value={death.timestamp}>
+                      {death.targetInfo?.name || "Unknown"} dies at {formatClock((death.timestamp - selectedFight.startTime) / 1000)}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <button onClick={handleFrameSync} disabled={frameSyncTarget === ""} className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-500">
+              Sync
+            </button>
+          </div>
+          <div className="mb-3 flex items-center flex-wrap gap-2 text-sm">
+            <span className="text-gray-300" title="Pin video moments to log moments to correct for cut breaks and drift">
+              📍 Sync anchors
+            </span>
+            {syncAnchors.map((anchor, index) => (
+              <span
+                key={`${anchor.videoTime}-${anchor.wclTime}`}
+                className="flex items-center gap-1 bg-[#1a1a2e] border border-amber-700 rounded px-2 py-0.5 text-xs text-gray-300"
+                title={`Offset here: ${(anchor.wclTime - anchor.videoTime).toFixed(1)}s`}
+              >
+                Video {formatClock(anchor.videoTime)} = Log {formatClock(anchor.wclTime)}
+                <button onClick={() => editSyncAnchors((prev) => prev.filter((_, i) => i !== index))} className="text-gray-500 hover:text-white" title="Remove anchor">
+                  ✕
+                </button>
+              </span>
+            ))}
+            {pendingAnchorVideoTime !== null ? (
+              <span className="text-xs text-amber-300">
+                Click the event on the timeline that happens at {formatClock(pendingAnchorVideoTime)} in the video •{" "}
+                <button onClick={() => setPendingAnchorVideoTime(null)} className="text-gray-400 hover:text-white">
+                  Cancel
+                </button>
+              </span>
+            ) : (
+              <button onClick={handleAnchorStart} className="text-xs text-blue-400 hover:text-blue-300">
+                + Anchor current frame
+              </button>
+            )}
+            {syncAnchors.length > 0 && pendingAnchorVideoTime === null && (
+              <button onClick={() => editSyncAnchors(() => [])} className="text-xs text-gray-400 hover:text-white">
+                Clear
+              </button>
+            )}
+          </div>
+          {selectedFight && eventsProgress.has(selectedFight.id) && (
+            <div className="mb-3 flex items-center gap-3 text-xs text-gray-400">
+              <span>Loading events… {Math.round((eventsProgress.get(selectedFight.id) || 0) * 100)}%</span>
+              <div className="flex-1 h-1 bg-[#232337] rounded">
+                <div className="h-1 bg-blue-500 rounded" style={{ width: `${(eventsProgress.get(selectedFight.id) || 0) * 100}%` }}></div>
+              </div>
+            </div>
+          )}
           <SuperTimeline
             reportStartTime={report.startTime}
             reportEndTime={report.endTime}
             fights={report.fights}
             selectedFightId={selectedFight?.id || null}
             onFightSelect={handleFightSelect}
-            events={getCurrentFightEvents()}
+            events={getFightEvents(selectedFight)}
+            comparisonFight={comparisonFight}
+            comparisonEvents={getFightEvents(comparisonFight)}
+            overviewEvents={overviewEvents}
+            povName={roster.find((actor) => actor.id === povActorId)?.name}
+            bossHealth={selectedFight ? fightBossHealth.get(selectedFight.id) || [] : []}
+            throughput={selectedFight ? fightThroughput.get(selectedFight.id) || [] : []}
             currentVideoTime={currentVideoTime}
             offset={offset}
+            syncAnchors={syncAnchors}
             onTimelineClick={handleTimelineClick}
+            onDeathSelect={handleDeathSelect}
             videoDuration={videoMetadata?.duration || 0}
-            videoStartTime={videoMetadata?.publishedAt ? new Date(videoMetadata.publishedAt).getTime() : videoMetadata?.createdAt ? new Date(videoMetadata.createdAt).getTime() : 0}
+            videoStartTime={getVideoStartTime(videoMetadata)}
             onOffsetChange={handleOffsetChange}
+            knownAlignment={knownAlignment}
+            userSynced={userSynced}
           />
         </div>
       </div>
@@ -0,0 +1,118 @@
+"use client";
+
+interface RecapActor {
+  id: number;
+  name: string;
+  type: string;
+  subType?: string;
+}
+
+interface DeathRecapEntry {
+  timestamp: number;
+  amount: number;
+  overkill?: number;
+  overheal?: number;
+  hitPoints?: number; // Health percent after the event
+  abilityGameID?: number;
+  abilityInfo?: { name: string; icon: string };
+  sourceInfo?: RecapActor;
+}
+
+export interface DeathRecap {
+  playerId: number;
+  playerInfo?: RecapActor;
+  deathTimestamp: number; // Relative to report start in ms
+  windowStart: number;
+  damageTaken: DeathRecapEntry[];
+  healingReceived: DeathRecapEntry[];
+  activeDefensives: {
+    spellId: number;
+    name: string;
+    type: "personal" | "external" | "raid";
+    appliedAt: number;
+    sourceInfo?: RecapActor;
+  }[];
+  totalDamage: number;
+  totalHealing: number;
+}
+
+interface DeathRecapPanelProps {
+  recap: DeathRecap | null;
+  loading: boolean;
+  onClose: () => void;
+  onSeek: (timeInSeconds: number) => void; // WCL time relative to report start
+}
+
+// Damage and healing merged into one chronological list
+type RecapLine = DeathRecapEntry & { kind: "damage" | "heal" };
+
+const formatAmount = (amount: number) => (amount >= 1000000 ? `${(amount / 1000000).toFixed(1)}M` : amount >= 1000 ? `${Math.round(amount / 1000)}k` : `${amount}`);
+
+export default function DeathRecapPanel({ recap, loading, onClose, onSeek }: DeathRecapPanelProps) {
+  const lines: RecapLine[] = recap
+    ? [...recap.damageTaken.map((entry) => ({ ...entry, kind: "damage" as const })), ...recap.healingReceived.map((entry) => ({ ...entry, kind: "heal" as const }))].sort(
+        (a, b) => b.timestamp - a.timestamp
+      )
+    : [];
+
+  return (
+    <div className="bg-[#181824] rounded-2xl shadow-xl p-4 border border-[#35354a] flex flex-col max-h-full">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-100">☠️ Death Recap{recap?.playerInfo ? `: ${recap.playerInfo.name}` : ""}</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm" title="Close death recap">
+          ✕
+        </button>
+      </div>
+
+      {loading && <p className="text-sm text-gray-400">Loading death recap...</p>}
+
+      {!loading && !recap && <p className="text-sm text-gray-400">No recap available for this death.</p>}
+
+      {!loading && recap && (
+        <>
+          <div className="text-xs text-gray-400 mb-3">
+            Last {Math.round((recap.deathTimestamp - recap.windowStart) / 1000)}s • <span className="text-red-400">{formatAmount(recap.totalDamage)} taken</span> •{" "}
+            <span className="text-green-400">{formatAmount(recap.totalHealing)} healed</span>
+          </div>
+
+          <div className="mb-3">
+            <div className="text-xs font-semibold text-gray-300 mb-1">Active defensives</div>
+            {recap.activeDefensives.length === 0 ? (
+              <div className="text-xs text-yellow-400">None</div>
+            ) : (
+              recap.activeDefensives.map((defensive) => (
+                <div key={defensive.spellId} className="text-xs text-blue-300">
+                  🛡️ {defensive.name}
+                  {defensive.sourceInfo && defensive.sourceInfo.id !== recap.playerId ? ` (from ${defensive.sourceInfo.name})` : ""}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="overflow-y-auto flex-1 -mx-1">
+            {lines.map((line, index) => (
+              <button
+                key={`${line.kind}-${line.timestamp}-${index}`}
+                onClick={() => onSeek(line.timestamp / 1000)}
+                className="w-full flex items-center justify-between gap-2 px-1 py-0.5 rounded text-xs hover:bg-[#232337] text-left"
+                title="Click to seek video"
+              >
+                <span className="text-gray-500 w-12 shrink-0">-{((recap.deathTimestamp - line.timestamp) / 1000).toFixed(1)}s</span>
+                <span className="flex-1 truncate text-gray-200">
+                  {line.abilityInfo?.name || `#${line.abilityGameID}`}
+                  {line.sourceInfo ? <span className="text-gray-500"> • {line.sourceInfo.name}</span> : null}
+                </span>
+                <span className={line.kind === "damage" ? "text-red-400" : "text-green-400"}>
+                  {line.kind === "damage" ? "-" : "+"}
+                  {formatAmount(line.amount)}
+                  {line.overkill ? <span className="text-red-600"> ({formatAmount(line.overkill)} OK)</span> : null}
+                </span>
+                {line.hitPoints !== undefined && <span className="text-gray-400 w-9 text-right shrink-0">{line.hitPoints}%</span>}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
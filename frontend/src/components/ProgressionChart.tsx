@@ -0,0 +1,144 @@
+"use client";
+
+interface Fight {
+  id: number;
+  name: string;
+  startTime: number;
+  endTime: number;
+  encounterID?: number;
+  kill?: boolean;
+  fightPercentage?: number; // Boss health left when the pull ended
+  lastPhase?: number;
+  isTrash?: boolean;
+}
+
+interface ProgressionChartProps {
+  fights: Fight[];
+  selectedFightId: number | null;
+  onFightSelect: (fightId: number) => void;
+}
+
+// Every pull of one boss, in pull order
+interface BossProgression {
+  encounterID: number;
+  name: string;
+  pulls: Fight[];
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const PADDING_LEFT = 36; // Space for the percent labels
+const PADDING_RIGHT = 12;
+const PADDING_Y = 12;
+const PERCENT_GRIDLINES = [0, 25, 50, 75, 100];
+
+// Same phase palette as the timeline, so a phase reads the same in both
+const PHASE_COLORS = ["#4f46e5", "#0891b2", "#7c3aed", "#0d9488"];
+const KILL_COLOR = "#22c55e";
+
+// Group boss pulls by encounter, bosses in the order they were first pulled
+const getBossProgressions = (fights: Fight[]): BossProgression[] => {
+  const bosses = new Map<number, BossProgression>();
+
+  [...fights]
+    .filter((fight) => !fight.isTrash && fight.encounterID)
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach((fight) => {
+      const encounterID = fight.encounterID || 0;
+      const boss = bosses.get(encounterID) || { encounterID, name: fight.name, pulls: [] };
+      boss.pulls.push(fight);
+      bosses.set(encounterID, boss);
+    });
+
+  return [...bosses.values()];
+};
+
+// Boss health left at the end of a pull, kills count as 0
+const getPullPercent = (fight: Fight) => (fight.kill ? 0 : (fight.fightPercentage ?? 100));
+
+const formatDuration = (ms: number) => `${Math.floor(ms / 60000)}:${String(Math.floor((ms % 60000) / 1000)).padStart(2, "0")}`;
+
+export default function ProgressionChart({ fights, selectedFightId, onFightSelect }: ProgressionChartProps) {
+  const bosses = getBossProgressions(fights);
+
+  if (bosses.length === 0) {
+    return <p className="text-sm text-gray-400">No boss pulls in this report.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {bosses.map((boss) => {
+        const kill = boss.pulls.find((pull) => pull.kill);
+        const best = boss.pulls.reduce((lowest, pull) => (getPullPercent(pull) < getPullPercent(lowest) ? pull : lowest));
+
+        // Pull number on x, boss health on y (100% at the top)
+        const plotWidth = CHART_WIDTH - PADDING_LEFT - PADDING_RIGHT;
+        const pullToX = (index: number) => PADDING_LEFT + (boss.pulls.length === 1 ? plotWidth / 2 : (index / (boss.pulls.length - 1)) * plotWidth);
+        const percentToY = (percent: number) => PADDING_Y + ((100 - percent) / 100) * (CHART_HEIGHT - PADDING_Y * 2);
+        const points = boss.pulls.map((pull, index) => ({ pull, x: pullToX(index), y: percentToY(getPullPercent(pull)) }));
+
+        return (
+          <div key={boss.encounterID}>
+            <div className="flex items-baseline justify-between mb-1">
+              <h4 className="font-semibold text-gray-100">{boss.name}</h4>
+              <span className="text-xs text-gray-400">
+                {boss.pulls.length} pulls •{" "}
+                {kill ? (
+                  <span className="text-green-400">Killed on pull {boss.pulls.indexOf(kill) + 1}</span>
+                ) : (
+                  <span>
+                    Best: {getPullPercent(best).toFixed(1)}% (pull {boss.pulls.indexOf(best) + 1})
+                  </span>
+                )}
+              </span>
+            </div>
+
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-[#1a1a2e] rounded border border-[#35354a]">
+              {PERCENT_GRIDLINES.map((percent) => (
+                <g key={percent}>
+                  <line x1={PADDING_LEFT} x2={CHART_WIDTH - PADDING_RIGHT} y1={percentToY(percent)} y2={percentToY(percent)} stroke="#35354a" strokeWidth={1} />
+                  <text x={PADDING_LEFT - 6} y={percentToY(percent) + 3} textAnchor="end" fontSize={10} fill="#9ca3af">
+                    {percent}%
+                  </text>
+                </g>
+              ))}
+
+              <polyline points={points.map((point) => `${point.x},${point.y}`).join(" ")} fill="none" stroke="#6b7280" strokeWidth={1.5} />
+
+              {points.map(({ pull, x, y }, index) => {
+                const color = pull.kill ? KILL_COLOR : PHASE_COLORS[((pull.lastPhase || 1) - 1) % PHASE_COLORS.length];
+                const isSelected = pull.id === selectedFightId;
+
+                return (
+                  <g key={pull.id} onClick={() => onFightSelect(pull.id)} className="cursor-pointer">
+                    <title>
+                      {`Pull ${index + 1} (#${pull.id}) • ${pull.kill ? "Kill" : `${getPullPercent(pull).toFixed(1)}%`}${pull.lastPhase ? ` • P${pull.lastPhase}` : ""} • ${formatDuration(
+                        pull.endTime - pull.startTime
+                      )}`}
+                    </title>
+                    <circle cx={x} cy={y} r={isSelected ? 7 : 5} fill={color} stroke={isSelected ? "#ffffff" : "#101014"} strokeWidth={isSelected ? 2 : 1} />
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+        );
+      })}
+
+      {/* Legend */}
+      <div className="lg:col-span-2 flex items-center flex-wrap gap-4 text-xs text-gray-400">
+        {PHASE_COLORS.map((color, index) => (
+          <div key={color} className="flex items-center space-x-2">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></div>
+            <span>Ended in P{index + 1}</span>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2">
+          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: KILL_COLOR }}></div>
+          <span>Kill</span>
+        </div>
+        <span>Click a pull to open it in the timeline</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+export interface RosterActor {
+  id: number;
+  name: string;
+  type: string;
+  subType?: string; // Class name, e.g. "DeathKnight"
+  server?: string;
+  icon?: string; // Class-spec, e.g. "Mage-Frost"
+}
+
+export interface PovSuggestion {
+  actorId: number;
+  name: string;
+  score: number;
+  matchedOn: string; // Channel name that matched
+}
+
+interface RosterPanelProps {
+  actors: RosterActor[];
+  selectedIds: Set<number>;
+  onToggle: (actorId: number) => void;
+  onClear: () => void;
+  povActorId: number | null; // Character the video was recorded from
+  povSuggestion: PovSuggestion | null;
+  onPovChange: (actorId: number | null) => void;
+}
+
+// In-game class colors, keyed by the class name WCL uses as the actor subType
+export const CLASS_COLORS: Record<string, string> = {
+  DeathKnight: "#C41E3A",
+  DemonHunter: "#A330C9",
+  Druid: "#FF7C0A",
+  Evoker: "#33937F",
+  Hunter: "#AAD372",
+  Mage: "#3FC7EB",
+  Monk: "#00FF98",
+  Paladin: "#F48CBA",
+  Priest: "#FFFFFF",
+  Rogue: "#FFF468",
+  Shaman: "#0070DD",
+  Warlock: "#8788EE",
+  Warrior: "#C69B6D",
+};
+
+export default function RosterPanel({ actors, selectedIds, onToggle, onClear, povActorId, povSuggestion, onPovChange }: RosterPanelProps) {
+  // Group by class so the roster reads like a raid frame
+  const sortedActors = [...actors].sort((a, b) => (a.subType || "").localeCompare(b.subType || "") || a.name.localeCompare(b.name));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-semibold text-gray-100">Roster</h3>
+          <p className="text-xs text-gray-400">Select players to only show events from or on them</p>
+        </div>
+        {selectedIds.size > 0 && (
+          <button onClick={onClear} className="text-xs text-gray-400 hover:text-white">
+            Clear selection ({selectedIds.size})
+          </button>
+        )}
+      </div>
+
+      {/* POV character */}
+      <div className="flex items-center flex-wrap gap-2 mb-3 text-sm">
+        <span className="text-gray-300">🎥 This video is</span>
+        <select
+          value={povActorId ?? ""}
+          onChange={(e) => onPovChange(e.target.value === "" ? null : parseInt(e.target.value))}
+          className="bg-[#1a1a2e] border border-[#35354a] rounded px-2 py-1 text-gray-100 text-sm"
+        >
+          <option value="">Not a player POV</option>
+          {sortedActors.map((actor) => (
+            <option key={actor.id} value={actor.id}>
+              {actor.name}
+            </option>
+          ))}
+        </select>
+        {povSuggestion && povSuggestion.actorId !== povActorId && (
+          <button onClick={() => onPovChange(povSuggestion.actorId)} className="text-xs text-amber-400 hover:text-amber-300" title={`Matched channel "${povSuggestion.matchedOn}"`}>
+            Use suggested {povSuggestion.name}?
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {sortedActors.map((actor) => {
+          const isSelected = selectedIds.has(actor.id);
+          const color = CLASS_COLORS[actor.subType || ""] || "#9ca3af";
+
+          return (
+            <button
+              key={actor.id}
+              onClick={() => onToggle(actor.id)}
+              className={`px-2 py-1 rounded border text-xs transition-colors ${isSelected ? "bg-[#232337]" : "bg-[#1a1a2e] opacity-70 hover:opacity-100"}`}
+              style={{ color, borderColor: isSelected ? color : actor.id === povActorId ? "#fbbf24" : "#35354a" }}
+              title={actor.icon ? `${actor.name} (${actor.icon.replace("-", " ")})` : actor.name}
+            >
+              {actor.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback, useMemo } from "react";
+import { SyncAnchor, videoToWclTime } from "@/lib/syncMapping";
+
+interface PhaseTransition {
+  id: number;
+  startTime: number; // Relative to report start in ms
+  name?: string;
+  isIntermission?: boolean;
+}
 
 interface Fight {
   id: number;
@@ -9,18 +17,98 @@ interface Fight {
   endTime: number;
   kill?: boolean;
   iconUrl?: string | null;
+  phaseTransitions?: PhaseTransition[];
+  isTrash?: boolean;
 }
 
 interface Event {
   timestamp: number;
-  type: "Deaths" | "Casts";
+  type: "Deaths" | "Casts" | "DamageTaken" | "Cooldowns" | "Interrupts" | "Dispels" | "Auras" | "RaidConsumables";
+  sourceID?: number;
+  targetID?: number;
+  abilityGameID?: number;
+  extraAbilityGameID?: number; // Interrupted spell or dispelled aura
+  amount?: number;
+  overkill?: number;
+  duration?: number; // Cooldown effect or debuff duration in ms
+  cooldownType?: "personal" | "external" | "raid";
+  consumableType?: "bloodlust" | "battleRes" | "soulstone" | "potion" | "healing";
   ability?: {
     name: string;
     guid: number;
     type: number;
   };
+  abilityInfo?: {
+    name: string;
+    icon: string;
+  };
+  extraAbilityInfo?: {
+    name: string;
+    icon: string;
+  };
+  sourceInfo?: {
+    name: string;
+    subType?: string;
+    icon?: string; // Class-spec, e.g. "Mage-Frost"
+  };
+  targetInfo?: {
+    name: string;
+    icon?: string;
+  };
+  isPov?: boolean; // Copy drawn in the POV lane
+  isComparison?: boolean; // Event of the compared pull, shifted to line up with the selected pull's start
+}
+
+interface BossHealthSeries {
+  actorId: number;
+  name: string;
+  points: { timestamp: number; percent: number }[]; // Timestamps relative to report start in ms
+}
+
+interface ThroughputBucket {
+  timestamp: number; // Bucket start relative to report start in ms
+  damage: number; // Raid damage done per second
+  healing: number; // Raid healing done per second
 }
 
+// Compact event of the whole-report overview
+interface OverviewEvent {
+  fightId: number;
+  timestamp: number; // Relative to report start in ms
+  type: "Deaths" | "Casts";
+  abilityGameID?: number;
+  name?: string;
+}
+
+interface EventLane {
+  type: Event["type"];
+  label: string;
+  // Split the lane into one sub-row per group (e.g. per player)
+  groupBy?: (event: Event) => string;
+  // Stack overlapping bars of a group into tracks instead of drawing them on top of each other
+  stacked?: boolean;
+}
+
+interface EventRow {
+  key: string;
+  label: string;
+  top: number;
+  height: number;
+}
+
+interface EventLayout {
+  rows: EventRow[];
+  tracks: Map<Event, number>; // Track index of events in stacked lanes
+}
+
+// A phase of a fight with its end resolved from the next transition
+interface FightPhase extends PhaseTransition {
+  endTime: number;
+}
+
+// How an event is drawn and hit-tested on the canvas
+type EventShape = { kind: "marker"; x: number; y: number } | { kind: "bar"; x: number; y: number; width: number; height: number };
+
 interface SuperTimelineProps {
   reportStartTime: number; // Report start time in ms
   reportEndTime: number; // Report end time in ms
@@ -28,44 +116,249 @@ interface SuperTimelineProps {
   selectedFightId: number | null;
   onFightSelect: (fightId: number) => void;
   events: Event[]; // Events for the currently selected fight
+  comparisonFight?: Fight | null; // Another pull of the same boss, stacked under the selected one
+  comparisonEvents?: Event[]; // Events for the compared pull
+  overviewEvents?: OverviewEvent[]; // Deaths and boss casts of every pull, shown when zoomed out
+  povName?: string; // Character the video was recorded from
+  bossHealth?: BossHealthSeries[]; // Boss health curves for the currently selected fight
+  throughput?: ThroughputBucket[]; // Raid DPS/HPS buckets for the currently selected fight
   currentVideoTime: number; // Current video playback time in seconds (adjusted for offset)
   offset: number; // Time offset between WCL and video in seconds
+  syncAnchors?: SyncAnchor[]; // Video moments pinned to log moments; when set they replace the constant offset
   onTimelineClick: (timeInSeconds: number) => void;
+  onDeathSelect?: (event: Event) => void; // Called instead of onTimelineClick when a death marker is clicked
   videoDuration: number; // Video duration in seconds
   videoStartTime: number; // Video start timestamp in ms
   onOffsetChange: (offset: number) => void; // Callback when offset changes
+  knownAlignment?: KnownAlignment | null; // Offset earlier reviews of this report and video were saved with
+  userSynced?: boolean; // The reviewer synced by frame or anchors, which a known alignment must not overwrite
+}
+
+export interface KnownAlignment {
+  offset: number;
+  source: string; // Where the suggestion came from, shown with the sync status
 }
 
 const SYNC_ROW_HEIGHT = 30;
 const FIGHT_ROW_HEIGHT = 40;
+const PHASE_ROW_HEIGHT = 24;
+const THROUGHPUT_ROW_HEIGHT = 50;
 const EVENT_ROW_HEIGHT = 40;
+const GROUP_ROW_HEIGHT = 20; // Sub-rows of grouped lanes (e.g. cooldowns per player)
+const STACK_TRACK_HEIGHT = 12; // Tracks within a stacked sub-row (e.g. one debuff on several players)
 const SYNC_ROWS = 2; // Video and WCL
 const FIGHT_ROWS = 1;
-const EVENT_ROWS = 2; // Abilities, Deaths
-const TIMELINE_HEIGHT = SYNC_ROW_HEIGHT * SYNC_ROWS + FIGHT_ROW_HEIGHT * FIGHT_ROWS + EVENT_ROW_HEIGHT * EVENT_ROWS;
+const PHASE_ROWS = 1;
+// Sub-rows of the POV lane, drawn above the other event lanes when a POV character is set
+const POV_ROWS: { key: string; label: string; types: Event["type"][] }[] = [
+  { key: "Casts", label: "casts", types: ["Cooldowns", "RaidConsumables", "Interrupts", "Dispels"] },
+  { key: "Targeted", label: "targeted", types: ["Casts"] },
+  { key: "Damage", label: "damage", types: ["DamageTaken"] },
+  { key: "Debuffs", label: "debuffs", types: ["Auras"] },
+  { key: "Death", label: "death", types: ["Deaths"] },
+];
+// Lanes that get a row for the compared pull right below them
+const COMPARISON_LANE_TYPES: Event["type"][] = ["Casts", "Deaths"];
+// Event lanes below the Fights row, top to bottom
+const EVENT_LANES: EventLane[] = [
+  { type: "Casts", label: "Abilities" },
+  { type: "Deaths", label: "Deaths" },
+  { type: "DamageTaken", label: "Damage" },
+  { type: "Cooldowns", label: "Cooldowns", groupBy: (event) => event.sourceInfo?.name || `#${event.sourceID}` },
+  { type: "RaidConsumables", label: "Consumables" },
+  { type: "Interrupts", label: "Interrupts" },
+  { type: "Dispels", label: "Dispels" },
+  { type: "Auras", label: "Debuffs", groupBy: (event) => event.abilityInfo?.name || `#${event.abilityGameID}`, stacked: true },
+];
 const PADDING_TOP = 60; // Space for time labels
+const PHASE_ROW_TOP = PADDING_TOP + SYNC_ROW_HEIGHT * SYNC_ROWS + FIGHT_ROW_HEIGHT * FIGHT_ROWS;
+const THROUGHPUT_ROW_TOP = PHASE_ROW_TOP + PHASE_ROW_HEIGHT * PHASE_ROWS; // Optional output graph, event rows move down when shown
 const PADDING_BOTTOM = 20;
 const MIN_ZOOM = 0.1; // Min pixels per second
 const MAX_ZOOM = 50; // Max pixels per second
 const EDGE_PADDING_SEC = 60; // Extra seconds padding at edges when max zoomed out
+const DAMAGE_BAR_WIDTH = 2;
+const MIN_DURATION_BAR_WIDTH = 3;
+const MIN_ZOOM_FOR_MARKER_LABELS = 5; // Pixels per second before player names fit next to markers
+const MIN_ZOOM_FOR_DETAIL = 0.5; // Pixels per second before the selected fight's events replace the overview
+const OVERVIEW_BUCKET_WIDTH = 3; // Pixels per cast density bucket in the overview
+const EVENT_ICON_SIZE = 16;
+const ABILITY_ICON_BASE_URL = "https://assets.rpglogs.com/img/warcraft/abilities/";
+const CLASS_ICON_BASE_URL = "https://assets.rpglogs.com/img/warcraft/icons/";
+
+// Tooltip title per event type
+const EVENT_TITLES: Record<Event["type"], string> = {
+  Casts: "⚔️ Cast",
+  Deaths: "☠️ Death",
+  DamageTaken: "💥 Hit",
+  Cooldowns: "🛡️ Cooldown",
+  Interrupts: "✋ Interrupt",
+  Dispels: "✨ Dispel",
+  Auras: "🎯 Debuff",
+  RaidConsumables: "🧪 Consumable",
+};
+
+// Marker color and icon per instant event type
+const MARKER_STYLES: Partial<Record<Event["type"], { color: string; icon: string }>> = {
+  Casts: { color: "#f97316", icon: "⚔️" },
+  Deaths: { color: "#dc2626", icon: "☠️" },
+  Interrupts: { color: "#22c55e", icon: "✋" },
+  Dispels: { color: "#06b6d4", icon: "✨" },
+};
+
+// Phase bands alternate through these colors; intermissions use their own
+const PHASE_COLORS = ["#4f46e5", "#0891b2", "#7c3aed", "#0d9488"];
+const INTERMISSION_COLOR = "#6b7280";
+
+// Consumable markers are styled per kind rather than per event type
+const CONSUMABLE_STYLES: Record<NonNullable<Event["consumableType"]>, { color: string; icon: string }> = {
+  bloodlust: { color: "#d946ef", icon: "🥁" },
+  battleRes: { color: "#84cc16", icon: "💚" },
+  soulstone: { color: "#a78bfa", icon: "💎" },
+  potion: { color: "#8b5cf6", icon: "🧪" },
+  healing: { color: "#f43f5e", icon: "❤️" },
+};
+
+const COOLDOWN_COLORS: Record<NonNullable<Event["cooldownType"]>, string> = {
+  personal: "#3b82f6",
+  external: "#a855f7",
+  raid: "#14b8a6",
+};
+
+// Key of the row an event is drawn in
+const getEventRowKey = (event: Event) => {
+  if (event.isPov) {
+    return `POV:${POV_ROWS.find((r) => r.types.includes(event.type))?.key}`;
+  }
+
+  if (event.isComparison) {
+    return `CMP:${event.type}`;
+  }
+
+  const lane = EVENT_LANES.find((l) => l.type === event.type);
+  return lane?.groupBy ? `${event.type}:${lane.groupBy(event)}` : event.type;
+};
+
+// Greedily pack overlapping bars into tracks, returning how many tracks were needed
+const assignTracks = (events: Event[], tracks: Map<Event, number>) => {
+  const trackEnds: number[] = [];
+
+  [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((event) => {
+      let track = trackEnds.findIndex((end) => end <= event.timestamp);
+      if (track === -1) {
+        track = trackEnds.length;
+      }
+      trackEnds[track] = event.timestamp + (event.duration || 0);
+      tracks.set(event, track);
+    });
+
+  return Math.max(1, trackEnds.length);
+};
+
+// Lay out the event rows starting at the given top, expanding grouped lanes into one sub-row per group
+const buildEventLayout = (events: Event[], rowsTop: number, povName?: string, comparisonLabel?: string): EventLayout => {
+  const rows: EventRow[] = [];
+  const tracks = new Map<Event, number>();
+  let top = rowsTop;
+
+  // POV lane first, one sub-row per kind of event the character was involved in
+  const povEvents = events.filter((e) => e.isPov);
+  POV_ROWS.forEach((povRow) => {
+    const rowEvents = povEvents.filter((e) => povRow.types.includes(e.type));
+    if (rowEvents.length === 0) return;
+
+    const trackCount = povRow.key === "Debuffs" ? assignTracks(rowEvents, tracks) : 1;
+    const height = Math.max(GROUP_ROW_HEIGHT, trackCount * STACK_TRACK_HEIGHT + 4);
+    rows.push({ key: `POV:${povRow.key}`, label: `🎥 ${povName} ${povRow.label}`, top, height });
+    top += height;
+  });
+
+  EVENT_LANES.forEach((lane) => {
+    const groupBy = lane.groupBy;
+    const laneEvents = events.filter((e) => e.type === lane.type && !e.isPov && !e.isComparison);
+    const groups = groupBy ? [...new Set(laneEvents.map(groupBy))].sort() : [];
+
+    if (!groupBy || groups.length === 0) {
+      rows.push({ key: lane.type, label: lane.label, top, height: EVENT_ROW_HEIGHT });
+      top += EVENT_ROW_HEIGHT;
+
+      // The compared pull's row sits right under the same lane of the selected pull
+      if (comparisonLabel && COMPARISON_LANE_TYPES.includes(lane.type)) {
+        rows.push({ key: `CMP:${lane.type}`, label: `↔ ${comparisonLabel}`, top, height: EVENT_ROW_HEIGHT });
+        top += EVENT_ROW_HEIGHT;
+      }
+      return;
+    }
+
+    groups.forEach((group) => {
+      const trackCount = lane.stacked
+        ? assignTracks(
+            laneEvents.filter((e) => groupBy(e) === group),
+            tracks
+          )
+        : 1;
+      const height = Math.max(GROUP_ROW_HEIGHT, trackCount * STACK_TRACK_HEIGHT + 4);
+      rows.push({ key: `${lane.type}:${group}`, label: group, top, height });
+      top += height;
+    });
+  });
+
+  return { rows, tracks };
+};
+
+// Phases of a fight, each lasting until the next transition or the end of the fight
+const getFightPhases = (fight: Fight): FightPhase[] => {
+  const transitions = [...(fight.phaseTransitions || [])].sort((a, b) => a.startTime - b.startTime);
+  return transitions.map((transition, index) => ({
+    ...transition,
+    endTime: index + 1 < transitions.length ? transitions[index + 1].startTime : fight.endTime,
+  }));
+};
+
+// WCL icon drawn for a marker: the ability for boss casts, the class/spec of the player for deaths
+const getEventIconUrl = (event: Event): string | null => {
+  if (event.type === "Casts" && event.abilityInfo?.icon) return `${ABILITY_ICON_BASE_URL}${event.abilityInfo.icon}`;
+  if (event.type === "Deaths" && event.targetInfo?.icon) return `${CLASS_ICON_BASE_URL}${event.targetInfo.icon}.jpg`;
+  return null;
+};
+
+// Short label drawn inside fight bars
+const getPhaseShortLabel = (phase: FightPhase) => (phase.isIntermission ? "Int" : `P${phase.id}`);
+
+// Height of a damage bar, scaled against the biggest hit in the fight
+const getDamageBarHeight = (amount: number, maxAmount: number, rowHeight: number) => Math.max(2, (amount / Math.max(maxAmount, 1)) * (rowHeight - 8));
 
 export default function SuperTimeline({
   reportStartTime,
   reportEndTime,
-  fights,
+  fights: allFights,
   selectedFightId,
   onFightSelect,
   events,
+  comparisonFight = null,
+  comparisonEvents = [],
+  overviewEvents = [],
+  povName,
+  bossHealth = [],
+  throughput = [],
   currentVideoTime,
   offset,
+  syncAnchors = [],
   onTimelineClick,
+  onDeathSelect,
   videoDuration,
   videoStartTime,
   onOffsetChange,
+  knownAlignment,
+  userSynced = false,
 }: SuperTimelineProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const iconImagesRef = useRef<Map<string, HTMLImageElement>>(new Map()); // Cache for boss icons
+  const requestedEventIconsRef = useRef<Set<string>>(new Set()); // Event icon URLs already requested, including failed ones
+  const [eventIcons, setEventIcons] = useState<Map<string, HTMLImageElement>>(new Map()); // Loaded ability and class icons
 
   // Timeline state
   const [zoom, setZoom] = useState<number>(1); // pixels per second
@@ -74,59 +367,108 @@ export default function SuperTimeline({
   const [dragStart, setDragStart] = useState({ x: 0, panOffset: 0 });
   const [hoveredFight, setHoveredFight] = useState<Fight | null>(null);
   const [hoveredEvent, setHoveredEvent] = useState<(Event & { x: number; y: number }) | null>(null);
+  const [hoveredPhase, setHoveredPhase] = useState<{ fight: Fight; phase: FightPhase } | null>(null);
+  const [showThroughput, setShowThroughput] = useState<boolean>(true);
+  const [hoveredThroughput, setHoveredThroughput] = useState<ThroughputBucket | null>(null);
+  const [showTrash, setShowTrash] = useState<boolean>(false);
 
   // Sync timeline state
-  const [videoOffsetSec, setVideoOffsetSec] = useState<number>(0); // Video offset in seconds from timeline start
-  const [wclOffsetSec, setWclOffsetSec] = useState<number>(0); // WCL offset in seconds from timeline start
-  const [isLocked, setIsLocked] = useState<boolean>(false);
-  const [isDraggingSync, setIsDraggingSync] = useState<"video" | "wcl" | null>(null);
-  const [autoSynced, setAutoSynced] = useState<boolean>(false);
+  // The WCL bar starts the timeline and the video bar follows the offset, which is set from a paused frame by the parent
+  const wclOffsetSec = 0; // WCL offset in seconds from timeline start
+  const videoOffsetSec = wclOffsetSec + offset; // Video offset in seconds from timeline start
+  const [autoSync, setAutoSync] = useState<KnownAlignment | null>(null); // Offset set automatically and what it came from
+  const handledAlignmentRef = useRef<KnownAlignment | null>(null); // Known alignment already applied (or skipped), so re-runs leave the offset alone
+
+  // Trash pulls are hidden unless toggled on, except a selected one
+  const fights = useMemo(() => (showTrash ? allFights : allFights.filter((f) => !f.isTrash || f.id === selectedFightId)), [allFights, showTrash, selectedFightId]);
+  const hasTrash = allFights.some((f) => f.isTrash);
 
   const reportDuration = (reportEndTime - reportStartTime) / 1000; // in seconds
   const videoDurationSec = videoDuration;
 
-  // Initialize sync offsets and auto-sync
+  // Zoomed out (or nothing selected) shows every pull's deaths and casts in low detail instead of the selected fight's events
+  const showOverview = !selectedFightId || zoom < MIN_ZOOM_FOR_DETAIL;
+
+  // Deaths per pull, shown in fight tooltips
+  const deathCountsByFight = useMemo(() => {
+    const counts = new Map<number, number>();
+    overviewEvents.forEach((event) => {
+      if (event.type === "Deaths") counts.set(event.fightId, (counts.get(event.fightId) || 0) + 1);
+    });
+    return counts;
+  }, [overviewEvents]);
+
+  // Pull start the compared pull is aligned to
+  const alignedFightStart = allFights.find((f) => f.id === selectedFightId)?.startTime;
+  const comparisonLabel = comparisonFight && alignedFightStart !== undefined ? `#${comparisonFight.id} ${comparisonFight.kill ? "kill" : "wipe"}` : undefined;
+
+  // Loaded events plus copies of the POV character's events for the POV lane and the compared pull's events aligned to the selected pull
+  const timelineEvents = useMemo(() => {
+    // Matched by name since actor IDs differ between the reports of a merged session
+    const povEvents = !povName
+      ? []
+      : events.filter((event) => event.sourceInfo?.name === povName || event.targetInfo?.name === povName).map((event) => ({ ...event, isPov: true }));
+    const comparedEvents =
+      comparisonFight && alignedFightStart !== undefined
+        ? comparisonEvents
+            .filter((event) => COMPARISON_LANE_TYPES.includes(event.type))
+            .map((event) => ({ ...event, timestamp: event.timestamp - comparisonFight.startTime + alignedFightStart, isComparison: true }))
+        : [];
+    return [...events, ...povEvents, ...comparedEvents];
+  }, [events, povName, comparisonFight, comparisonEvents, alignedFightStart]);
+
+  // Biggest single hit in the loaded events, used to scale damage bars
+  const maxDamageAmount = useMemo(() => events.reduce((max, event) => (event.type === "DamageTaken" ? Math.max(max, event.amount || 0) : max), 0), [events]);
+
+  // Highest raid DPS or HPS bucket, used to scale the output graph
+  const maxThroughput = useMemo(() => throughput.reduce((max, bucket) => Math.max(max, bucket.damage, bucket.healing), 0), [throughput]);
+
+  // Event rows depend on the loaded events (grouped lanes grow per player) and start below the output graph when shown
+  const eventRowsTop = showThroughput ? THROUGHPUT_ROW_TOP + THROUGHPUT_ROW_HEIGHT : THROUGHPUT_ROW_TOP;
+  const { rows: eventRows, tracks: eventTracks } = useMemo(
+    () => buildEventLayout(timelineEvents, eventRowsTop, povName, comparisonLabel),
+    [timelineEvents, eventRowsTop, povName, comparisonLabel]
+  );
+  const eventRowsByKey = useMemo(() => new Map(eventRows.map((row) => [row.key, row])), [eventRows]);
+  const lastEventRow = eventRows[eventRows.length - 1];
+
+  // Spells the raid kicked at least once; completed casts of these were missed kicks
+  const interruptedAbilityIds = useMemo(
+    () => new Set(events.filter((event) => event.type === "Interrupts" && event.extraAbilityGameID).map((event) => event.extraAbilityGameID)),
+    [events]
+  );
+  const timelineHeight = lastEventRow.top + lastEventRow.height - PADDING_TOP;
+
+  // Auto-sync, preferring an alignment earlier reviewers saved over the video and report start timestamps
   useEffect(() => {
-    // Always set WCL to start at 0 by default
-    setWclOffsetSec(0);
+    if (knownAlignment) {
+      // Applied once, and never over a sync the reviewer already made
+      if (handledAlignmentRef.current !== knownAlignment) {
+        handledAlignmentRef.current = knownAlignment;
+        if (!userSynced) {
+          setAutoSync(knownAlignment);
+          onOffsetChange(knownAlignment.offset);
+        }
+      }
+      return;
+    }
 
     if (videoStartTime && reportStartTime && videoDurationSec > 0) {
-      // Try to auto-align based on timestamps
-      // If video was published before report started, video offset should be negative
-      // videoOffsetSec represents where the video starts on the timeline
+      // If video was published before report started, the offset is negative
       const timeDiffSeconds = (videoStartTime - reportStartTime) / 1000;
 
       // Only auto-align if the timestamps are within a reasonable range (same day)
       const dayInSeconds = 24 * 60 * 60;
       if (Math.abs(timeDiffSeconds) < dayInSeconds) {
-        setVideoOffsetSec(timeDiffSeconds);
-        setIsLocked(true);
-        setAutoSynced(true);
-
-        // Calculate and set the offset
         // offset gives us: wclTime = videoTime + offset
-        // videoOffsetSec is where video bar starts, wclOffsetSec is where WCL bar starts
-        const offsetSec = timeDiffSeconds - 0; // videoOffsetSec - wclOffsetSec
-        onOffsetChange(offsetSec);
-      } else {
-        // If not auto-syncing, position video bar below WCL for visibility
-        setVideoOffsetSec(-videoDurationSec - 60); // Place before WCL with a gap
+        setAutoSync({ offset: timeDiffSeconds, source: "video and report start times" });
+        onOffsetChange(timeDiffSeconds);
       }
-    } else if (videoDurationSec > 0) {
-      // No timestamps available, position video bar before WCL
-      setVideoOffsetSec(-videoDurationSec - 60);
     }
-  }, [videoStartTime, reportStartTime, onOffsetChange, videoDurationSec]);
+  }, [knownAlignment, userSynced, videoStartTime, reportStartTime, onOffsetChange, videoDurationSec]);
 
-  // Update offset when sync positions change
-  useEffect(() => {
-    if (isLocked) {
-      // offset gives us: wclTime = videoTime + offset
-      // So: offset = videoOffsetSec - wclOffsetSec
-      const offsetSec = videoOffsetSec - wclOffsetSec;
-      onOffsetChange(offsetSec);
-    }
-  }, [videoOffsetSec, wclOffsetSec, isLocked, onOffsetChange]);
+  // Auto-sync source, until the sync is changed by hand
+  const syncSource = autoSync && syncAnchors.length === 0 && autoSync.offset === offset ? autoSync.source : null;
 
   // Load boss icons
   useEffect(() => {
@@ -146,6 +488,25 @@ export default function SuperTimeline({
     });
   }, [fights]);
 
+  // Load ability and class icons for event markers
+  useEffect(() => {
+    events.forEach((event) => {
+      const url = getEventIconUrl(event);
+      if (!url || requestedEventIconsRef.current.has(url)) return;
+
+      // Not CORS-enabled (unlike boss icons); drawing still works since the canvas is never read back
+      const img = new Image();
+      requestedEventIconsRef.current.add(url);
+      img.onload = () => {
+        setEventIcons((prev) => new Map(prev).set(url, img));
+      };
+      img.onerror = () => {
+        console.warn(`Failed to load icon: ${url}`);
+      };
+      img.src = url;
+    });
+  }, [events]);
+
   // Initialize zoom to fit entire report in view with edge padding
   useEffect(() => {
     if (containerRef.current) {
@@ -180,14 +541,6 @@ export default function SuperTimeline({
     }
   }, [selectedFightId, fights, wclOffsetSec]);
 
-  // Update parent when offsets change (after dragging stops)
-  useEffect(() => {
-    if (!isDraggingSync) {
-      const offset = videoOffsetSec - wclOffsetSec;
-      onOffsetChange?.(offset);
-    }
-  }, [videoOffsetSec, wclOffsetSec, isDraggingSync, onOffsetChange]);
-
   // Convert time (in seconds from report start) to X coordinate
   const timeToX = useCallback(
     (timeInSeconds: number) => {
@@ -204,6 +557,76 @@ export default function SuperTimeline({
     [zoom, panOffset]
   );
 
+  // Find the fight phase at the given X coordinate of the Phases row
+  const findPhaseAt = useCallback(
+    (x: number): { fight: Fight; phase: FightPhase } | null => {
+      // Phase times are relative to report start in milliseconds, like fight times
+      const timeMs = (xToTime(x) - wclOffsetSec) * 1000;
+      const fight = fights.find((f) => timeMs >= f.startTime && timeMs <= f.endTime);
+      const phase = fight && getFightPhases(fight).find((p) => timeMs >= p.startTime && timeMs <= p.endTime);
+      return fight && phase ? { fight, phase } : null;
+    },
+    [fights, xToTime, wclOffsetSec]
+  );
+
+  // Canvas geometry of an event: markers for instant events, bars for hits and cooldowns
+  const getEventShape = useCallback(
+    (event: Event): EventShape | null => {
+      const row = eventRowsByKey.get(getEventRowKey(event));
+      if (!row) return null;
+
+      // Event timestamp from API is already relative to report start in milliseconds
+      const x = timeToX(event.timestamp / 1000 + wclOffsetSec); // Position relative to WCL bar
+
+      if (event.type === "DamageTaken") {
+        // Bar growing up from the bottom of the lane, scaled by damage
+        const height = getDamageBarHeight(event.amount || 0, maxDamageAmount, row.height);
+        const bottom = row.top + row.height - 4;
+        return { kind: "bar", x: x - DAMAGE_BAR_WIDTH / 2, y: bottom - height, width: DAMAGE_BAR_WIDTH, height };
+      }
+
+      if (event.type === "Cooldowns") {
+        // Bar spanning the cooldown's effect duration
+        const width = Math.max(MIN_DURATION_BAR_WIDTH, ((event.duration || 0) / 1000) * zoom);
+        return { kind: "bar", x, y: row.top + 3, width, height: row.height - 6 };
+      }
+
+      if (event.type === "Auras") {
+        // Bar from application to removal, in its own track when overlapping
+        const width = Math.max(MIN_DURATION_BAR_WIDTH, ((event.duration || 0) / 1000) * zoom);
+        const track = eventTracks.get(event) || 0;
+        return { kind: "bar", x, y: row.top + 2 + track * STACK_TRACK_HEIGHT, width, height: STACK_TRACK_HEIGHT - 2 };
+      }
+
+      return { kind: "marker", x, y: row.top + row.height / 2 };
+    },
+    [eventRowsByKey, eventTracks, timeToX, wclOffsetSec, maxDamageAmount, zoom]
+  );
+
+  // Find the event under the given canvas coordinates
+  const findEventAt = useCallback(
+    (x: number, y: number): (Event & { x: number; y: number }) | null => {
+      if (!selectedFightId || showOverview || timelineEvents.length === 0) return null;
+
+      for (const event of timelineEvents) {
+        const shape = getEventShape(event);
+        if (!shape) continue;
+
+        const isHit =
+          shape.kind === "bar"
+            ? x >= shape.x - 1 && x <= shape.x + shape.width + 1 && y >= shape.y && y <= shape.y + shape.height
+            : Math.sqrt(Math.pow(x - shape.x, 2) + Math.pow(y - shape.y, 2)) <= EVENT_ICON_SIZE / 2;
+
+        if (isHit) {
+          return { ...event, x: shape.x, y: shape.y };
+        }
+      }
+
+      return null;
+    },
+    [selectedFightId, showOverview, timelineEvents, getEventShape]
+  );
+
   // Auto-pan to keep current time visible when video is playing
   // DISABLED - was causing issues with jumping to wrong positions
   // TODO: Reimplement with correct WCL timeline calculations
@@ -256,7 +679,7 @@ export default function SuperTimeline({
     if (!ctx) return;
 
     const width = container.clientWidth;
-    const height = PADDING_TOP + TIMELINE_HEIGHT + PADDING_BOTTOM;
+    const height = PADDING_TOP + timelineHeight + PADDING_BOTTOM;
 
     // Set canvas size (handle DPI)
     const dpr = window.devicePixelRatio || 1;
@@ -285,7 +708,7 @@ export default function SuperTimeline({
       if (x >= 0 && x <= width) {
         ctx.beginPath();
         ctx.moveTo(x, PADDING_TOP);
-        ctx.lineTo(x, PADDING_TOP + TIMELINE_HEIGHT);
+        ctx.lineTo(x, PADDING_TOP + timelineHeight);
         ctx.stroke();
 
         ctx.fillText(formatTime(t), x - 15, PADDING_TOP - 10);
@@ -298,22 +721,43 @@ export default function SuperTimeline({
     const videoRowY = PADDING_TOP + SYNC_ROW_HEIGHT / 2;
     const wclRowY = PADDING_TOP + SYNC_ROW_HEIGHT + SYNC_ROW_HEIGHT / 2;
     const fightsRowY = PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT / 2;
-    const abilitiesRowY = PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + EVENT_ROW_HEIGHT / 2;
-    const deathsRowY = PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + EVENT_ROW_HEIGHT + EVENT_ROW_HEIGHT / 2;
 
     ctx.fillText("Video", 10, videoRowY);
     ctx.fillText("WCL", 10, wclRowY);
     ctx.fillText("Fights", 10, fightsRowY);
-    ctx.fillText("Abilities", 10, abilitiesRowY);
-    ctx.fillText("Deaths", 10, deathsRowY);
+    ctx.fillText("Phases", 10, PHASE_ROW_TOP + PHASE_ROW_HEIGHT / 2);
+    if (showThroughput) {
+      ctx.fillText("Output", 10, THROUGHPUT_ROW_TOP + THROUGHPUT_ROW_HEIGHT / 2);
+    }
+    eventRows.forEach((row) => {
+      // Tint the POV lane and highlight the POV character's rows in other lanes
+      const isPovRow = row.key.startsWith("POV:");
+      if (isPovRow) {
+        ctx.fillStyle = "rgba(251, 191, 36, 0.08)";
+        ctx.fillRect(0, row.top, width, row.height);
+      }
+      // Tint the compared pull's rows too
+      const isComparisonRow = row.key.startsWith("CMP:");
+      if (isComparisonRow) {
+        ctx.fillStyle = "rgba(167, 139, 250, 0.08)";
+        ctx.fillRect(0, row.top, width, row.height);
+      }
+      ctx.fillStyle = isPovRow || (povName && row.label === povName) ? "#fbbf24" : isComparisonRow ? "#c4b5fd" : "#e5e7eb";
+
+      // Grouped sub-rows are shorter, so use a smaller vertically centered label
+      const isGroupRow = row.height < EVENT_ROW_HEIGHT;
+      ctx.font = isGroupRow ? "10px sans-serif" : "12px sans-serif";
+      ctx.fillText(row.label, 10, row.top + row.height / 2 + (isGroupRow ? 4 : 0));
+    });
 
     // Draw row separators
     ctx.strokeStyle = "#35354a";
     const rowYPositions = [
       PADDING_TOP + SYNC_ROW_HEIGHT,
       PADDING_TOP + SYNC_ROW_HEIGHT * 2,
-      PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT,
-      PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + EVENT_ROW_HEIGHT,
+      PHASE_ROW_TOP,
+      ...(showThroughput ? [THROUGHPUT_ROW_TOP] : []),
+      ...eventRows.map((row) => row.top),
     ];
 
     rowYPositions.forEach((y) => {
@@ -330,11 +774,11 @@ export default function SuperTimeline({
     const videoH = SYNC_ROW_HEIGHT - 6;
 
     if (videoX + videoW > 0 && videoX < width) {
-      ctx.fillStyle = isDraggingSync === "video" ? "#3b82f6" : "#2563eb";
+      ctx.fillStyle = "#2563eb";
       ctx.fillRect(Math.max(0, videoX), videoY, Math.min(videoW, width - Math.max(0, videoX)), videoH);
 
-      ctx.strokeStyle = isLocked ? "#10b981" : "#1e40af";
-      ctx.lineWidth = isLocked ? 2 : 1;
+      ctx.strokeStyle = "#1e40af";
+      ctx.lineWidth = 1;
       ctx.strokeRect(Math.max(0, videoX), videoY, Math.min(videoW, width - Math.max(0, videoX)), videoH);
 
       // Draw label if wide enough
@@ -352,11 +796,11 @@ export default function SuperTimeline({
     const wclH = SYNC_ROW_HEIGHT - 6;
 
     if (wclX + wclW > 0 && wclX < width) {
-      ctx.fillStyle = isDraggingSync === "wcl" ? "#a855f7" : "#9333ea";
+      ctx.fillStyle = "#9333ea";
       ctx.fillRect(Math.max(0, wclX), wclY, Math.min(wclW, width - Math.max(0, wclX)), wclH);
 
-      ctx.strokeStyle = isLocked ? "#10b981" : "#7e22ce";
-      ctx.lineWidth = isLocked ? 2 : 1;
+      ctx.strokeStyle = "#7e22ce";
+      ctx.lineWidth = 1;
       ctx.strokeRect(Math.max(0, wclX), wclY, Math.min(wclW, width - Math.max(0, wclX)), wclH);
 
       // Draw label if wide enough
@@ -367,6 +811,15 @@ export default function SuperTimeline({
       }
     }
 
+    // Draw sync anchors on the WCL bar
+    syncAnchors.forEach((anchor) => {
+      const anchorX = timeToX(anchor.wclTime + wclOffsetSec);
+      if (anchorX < 0 || anchorX > width) return;
+
+      ctx.fillStyle = "#f59e0b";
+      ctx.fillRect(anchorX - 1, wclY, 3, wclH);
+    });
+
     // Draw fights
     fights.forEach((fight) => {
       // Fight times from API are already relative to report start in milliseconds
@@ -383,13 +836,92 @@ export default function SuperTimeline({
       const isSelected = fight.id === selectedFightId;
       const isHovered = hoveredFight?.id === fight.id;
 
-      // Draw fight bar
-      ctx.fillStyle = fight.kill ? (isSelected ? "#10b981" : "#059669") : isSelected ? "#ef4444" : "#dc2626";
-      if (isHovered && !isSelected) {
-        ctx.fillStyle = fight.kill ? "#34d399" : "#f87171";
+      // Draw fight bar, muted for trash pulls
+      if (fight.isTrash) {
+        ctx.fillStyle = isSelected ? "#6b7280" : isHovered ? "#4b5563" : "#374151";
+      } else {
+        ctx.fillStyle = fight.kill ? (isSelected ? "#10b981" : "#059669") : isSelected ? "#ef4444" : "#dc2626";
+        if (isHovered && !isSelected) {
+          ctx.fillStyle = fight.kill ? "#34d399" : "#f87171";
+        }
       }
       ctx.fillRect(x, y, Math.max(w, 2), h);
 
+      // Draw phase bands inside the fight bar and matching bands in the Phases row
+      getFightPhases(fight).forEach((phase, index) => {
+        const phaseX = timeToX(phase.startTime / 1000 + wclOffsetSec);
+        const phaseW = ((phase.endTime - phase.startTime) / 1000) * zoom;
+        const color = phase.isIntermission ? INTERMISSION_COLOR : PHASE_COLORS[index % PHASE_COLORS.length];
+        const isPhaseHovered = hoveredPhase?.fight.id === fight.id && hoveredPhase.phase.startTime === phase.startTime;
+
+        // Darken every other phase and mark where each phase starts
+        if (index % 2 === 1 || phase.isIntermission) {
+          ctx.fillStyle = "rgba(0, 0, 0, 0.2)";
+          ctx.fillRect(phaseX, y, phaseW, h);
+        }
+        if (index > 0) {
+          ctx.strokeStyle = "rgba(255, 255, 255, 0.6)";
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.moveTo(phaseX, y);
+          ctx.lineTo(phaseX, y + h);
+          ctx.stroke();
+
+          if (phaseW > 24) {
+            ctx.fillStyle = "#ffffff";
+            ctx.font = "9px sans-serif";
+            ctx.fillText(getPhaseShortLabel(phase), phaseX + 3, y + h - 3);
+          }
+        }
+
+        ctx.fillStyle = isPhaseHovered ? "#fbbf24" : color;
+        ctx.fillRect(phaseX, PHASE_ROW_TOP + 3, Math.max(phaseW - 1, 1), PHASE_ROW_HEIGHT - 6);
+        if (phaseW > 30) {
+          ctx.fillStyle = "#ffffff";
+          ctx.font = "10px sans-serif";
+          ctx.fillText(phase.name || getPhaseShortLabel(phase), phaseX + 3, PHASE_ROW_TOP + PHASE_ROW_HEIGHT / 2 + 3, phaseW - 6);
+        }
+      });
+
+      // Draw boss health curves behind the selected fight's border, icon and name
+      if (isSelected) {
+        bossHealth.forEach((series) => {
+          if (series.points.length === 0) return;
+
+          const pointX = (timestamp: number) => timeToX(timestamp / 1000 + wclOffsetSec);
+          const pointY = (percent: number) => y + h - (Math.min(Math.max(percent, 0), 100) / 100) * h;
+
+          // Shade the part of the bar above the curve (health already lost)
+          ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
+          ctx.beginPath();
+          ctx.moveTo(pointX(series.points[0].timestamp), y);
+          series.points.forEach((point) => ctx.lineTo(pointX(point.timestamp), pointY(point.percent)));
+          ctx.lineTo(pointX(series.points[series.points.length - 1].timestamp), y);
+          ctx.closePath();
+          ctx.fill();
+
+          ctx.strokeStyle = "rgba(255, 255, 255, 0.85)";
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          series.points.forEach((point, index) => {
+            if (index === 0) ctx.moveTo(pointX(point.timestamp), pointY(point.percent));
+            else ctx.lineTo(pointX(point.timestamp), pointY(point.percent));
+          });
+          ctx.stroke();
+
+          // Mark where the pull ended and how much health was left
+          const last = series.points[series.points.length - 1];
+          ctx.fillStyle = "#fbbf24";
+          ctx.beginPath();
+          ctx.arc(pointX(last.timestamp), pointY(last.percent), 3, 0, Math.PI * 2);
+          ctx.fill();
+          if (w > 60) {
+            ctx.font = "10px sans-serif";
+            ctx.fillText(`${last.percent.toFixed(1)}%`, pointX(last.timestamp) - 34, Math.max(pointY(last.percent) - 4, y + 10));
+          }
+        });
+      }
+
       // Draw border
       ctx.strokeStyle = isSelected ? "#fbbf24" : "#1f2937";
       ctx.lineWidth = isSelected ? 3 : 1;
@@ -427,33 +959,175 @@ export default function SuperTimeline({
       }
     });
 
+    // Draw raid damage and healing done as overlapping area charts
+    if (showThroughput && throughput.length > 0) {
+      const graphBottom = THROUGHPUT_ROW_TOP + THROUGHPUT_ROW_HEIGHT - 3;
+      const graphHeight = THROUGHPUT_ROW_HEIGHT - 8;
+      const bucketX = (bucket: ThroughputBucket) => timeToX(bucket.timestamp / 1000 + wclOffsetSec);
+
+      (
+        [
+          ["damage", "rgba(249, 115, 22, 0.45)", "#f97316"],
+          ["healing", "rgba(34, 197, 94, 0.35)", "#22c55e"],
+        ] as const
+      ).forEach(([key, fill, stroke]) => {
+        const bucketY = (bucket: ThroughputBucket) => graphBottom - (bucket[key] / Math.max(maxThroughput, 1)) * graphHeight;
+
+        ctx.fillStyle = fill;
+        ctx.beginPath();
+        ctx.moveTo(bucketX(throughput[0]), graphBottom);
+        throughput.forEach((bucket) => ctx.lineTo(bucketX(bucket), bucketY(bucket)));
+        ctx.lineTo(bucketX(throughput[throughput.length - 1]), graphBottom);
+        ctx.closePath();
+        ctx.fill();
+
+        ctx.strokeStyle = stroke;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        throughput.forEach((bucket, index) => {
+          if (index === 0) ctx.moveTo(bucketX(bucket), bucketY(bucket));
+          else ctx.lineTo(bucketX(bucket), bucketY(bucket));
+        });
+        ctx.stroke();
+      });
+    }
+
+    // Draw the low-detail overview of every pull: cast density in the Abilities row, death ticks in the Deaths row
+    const castsRow = eventRowsByKey.get("Casts");
+    const deathsRow = eventRowsByKey.get("Deaths");
+    if (showOverview && castsRow && deathsRow) {
+      const castBuckets = new Map<number, number>();
+
+      overviewEvents.forEach((event) => {
+        const x = timeToX(event.timestamp / 1000 + wclOffsetSec);
+        if (x < 0 || x > width) return;
+
+        if (event.type === "Casts") {
+          const bucket = Math.floor(x / OVERVIEW_BUCKET_WIDTH);
+          castBuckets.set(bucket, (castBuckets.get(bucket) || 0) + 1);
+          return;
+        }
+
+        ctx.fillStyle = "#dc2626";
+        ctx.fillRect(x - 1, deathsRow.top + 8, 2, deathsRow.height - 16);
+      });
+
+      castBuckets.forEach((count, bucket) => {
+        ctx.fillStyle = `rgba(249, 115, 22, ${Math.min(1, 0.2 + count * 0.1)})`;
+        ctx.fillRect(bucket * OVERVIEW_BUCKET_WIDTH, castsRow.top + 10, OVERVIEW_BUCKET_WIDTH - 1, castsRow.height - 20);
+      });
+    }
+
     // Draw events for selected fight
-    if (selectedFightId && events.length > 0) {
+    if (selectedFightId && !showOverview && timelineEvents.length > 0) {
       const selectedFight = fights.find((f) => f.id === selectedFightId);
       if (selectedFight) {
-        events.forEach((event) => {
-          // Event timestamp from API is already relative to report start in milliseconds
-          const eventTimeSec = event.timestamp / 1000;
-          const x = timeToX(eventTimeSec + wclOffsetSec); // Position relative to WCL bar
+        // Mark where the compared pull ended, lined up with the selected pull
+        if (comparisonFight) {
+          const comparisonEndX = timeToX((selectedFight.startTime + comparisonFight.endTime - comparisonFight.startTime) / 1000 + wclOffsetSec);
+          ctx.strokeStyle = "#a78bfa";
+          ctx.lineWidth = 1;
+          ctx.setLineDash([4, 3]);
+          COMPARISON_LANE_TYPES.forEach((type) => {
+            const row = eventRowsByKey.get(`CMP:${type}`);
+            if (!row) return;
+            ctx.beginPath();
+            ctx.moveTo(comparisonEndX, row.top);
+            ctx.lineTo(comparisonEndX, row.top + row.height);
+            ctx.stroke();
+          });
+          ctx.setLineDash([]);
+        }
+
+        timelineEvents.forEach((event) => {
+          const shape = getEventShape(event);
+          if (!shape) return;
 
           // Only draw if visible
-          if (x < 0 || x > width) return;
+          if (shape.kind === "bar" ? shape.x + shape.width < 0 || shape.x > width : shape.x < 0 || shape.x > width) return;
 
-          // Position in Abilities or Deaths row
-          const y =
-            event.type === "Casts" ? PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + 10 : PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + EVENT_ROW_HEIGHT + 10;
+          if (event.type === "DamageTaken" && shape.kind === "bar") {
+            ctx.fillStyle = event.overkill ? "#dc2626" : "#f59e0b";
+            ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
+            return;
+          }
 
-          // Draw event marker
-          ctx.fillStyle = event.type === "Casts" ? "#f97316" : "#dc2626";
-          ctx.beginPath();
-          ctx.arc(x, y + 10, 4, 0, Math.PI * 2);
-          ctx.fill();
+          if (event.type === "Cooldowns" && shape.kind === "bar") {
+            ctx.fillStyle = COOLDOWN_COLORS[event.cooldownType || "personal"];
+            ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
 
-          // Draw icon/text
-          ctx.fillStyle = "#ffffff";
-          ctx.font = "12px sans-serif";
-          const icon = event.type === "Casts" ? "⚔️" : "☠️";
-          ctx.fillText(icon, x - 6, y + 5);
+            // Draw cooldown name if wide enough
+            const name = event.abilityInfo?.name || event.ability?.name;
+            if (name && shape.width > 40) {
+              ctx.fillStyle = "#ffffff";
+              ctx.font = "10px sans-serif";
+              ctx.fillText(name, shape.x + 3, shape.y + shape.height / 2 + 3, shape.width - 6);
+            }
+            return;
+          }
+
+          if (event.type === "Auras" && shape.kind === "bar") {
+            ctx.fillStyle = "#e11d48";
+            ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
+
+            // Draw who has the debuff if wide enough
+            if (event.targetInfo && shape.width > 40) {
+              ctx.fillStyle = "#ffffff";
+              ctx.font = "9px sans-serif";
+              ctx.fillText(event.targetInfo.name, shape.x + 3, shape.y + shape.height - 2, shape.width - 6);
+            }
+            return;
+          }
+
+          const markerStyle = event.type === "RaidConsumables" && event.consumableType ? CONSUMABLE_STYLES[event.consumableType] : MARKER_STYLES[event.type];
+          if (!markerStyle) return;
+
+          // Draw the WCL icon framed in the marker color, or the dot and emoji while it loads or if it failed
+          const iconUrl = getEventIconUrl(event);
+          const icon = iconUrl ? eventIcons.get(iconUrl) : undefined;
+          const half = EVENT_ICON_SIZE / 2;
+
+          if (icon) {
+            ctx.drawImage(icon, shape.x - half, shape.y - half, EVENT_ICON_SIZE, EVENT_ICON_SIZE);
+            ctx.strokeStyle = markerStyle.color;
+            ctx.lineWidth = 1.5;
+            ctx.strokeRect(shape.x - half, shape.y - half, EVENT_ICON_SIZE, EVENT_ICON_SIZE);
+          } else {
+            ctx.fillStyle = markerStyle.color;
+            ctx.beginPath();
+            ctx.arc(shape.x, shape.y, 4, 0, Math.PI * 2);
+            ctx.fill();
+
+            ctx.fillStyle = "#ffffff";
+            ctx.font = "12px sans-serif";
+            ctx.fillText(markerStyle.icon, shape.x - 6, shape.y - 5);
+          }
+
+          // Ring boss casts that went through although the raid kicks that spell
+          if (event.type === "Casts" && interruptedAbilityIds.has(event.abilityGameID)) {
+            ctx.strokeStyle = "#facc15";
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(shape.x, shape.y, icon ? half + 3 : 7, 0, Math.PI * 2);
+            ctx.stroke();
+          }
+
+          // Label battle resses and soulstones with who received them, other consumables with who used them
+          if (event.type === "RaidConsumables" && zoom >= MIN_ZOOM_FOR_MARKER_LABELS) {
+            const player = event.consumableType === "battleRes" || event.consumableType === "soulstone" ? event.targetInfo : event.sourceInfo;
+            if (player) {
+              ctx.fillStyle = "#d1d5db";
+              ctx.font = "10px sans-serif";
+              ctx.fillText(player.name, shape.x + 7, shape.y + 4, 80);
+            }
+          }
+
+          // Label kicks and dispels with the player who did them
+          if ((event.type === "Interrupts" || event.type === "Dispels") && event.sourceInfo && zoom >= MIN_ZOOM_FOR_MARKER_LABELS) {
+            ctx.fillStyle = "#d1d5db";
+            ctx.font = "10px sans-serif";
+            ctx.fillText(event.sourceInfo.name, shape.x + 7, shape.y + 4, 80);
+          }
         });
       }
     }
@@ -461,8 +1135,8 @@ export default function SuperTimeline({
     // Draw current time indicator
     // Show current video time mapped to WCL timeline
     if (currentVideoTime !== undefined && offset !== undefined) {
-      // Formula: wclTime = videoTime + offset
-      const wclTime = currentVideoTime + offset;
+      // Formula: wclTime = videoTime + offset, or piecewise between sync anchors
+      const wclTime = videoToWclTime(currentVideoTime, offset, syncAnchors);
       const x = timeToX(wclTime + wclOffsetSec);
 
       if (x >= 0 && x <= width) {
@@ -470,7 +1144,7 @@ export default function SuperTimeline({
         ctx.lineWidth = 2;
         ctx.beginPath();
         ctx.moveTo(x, PADDING_TOP);
-        ctx.lineTo(x, PADDING_TOP + TIMELINE_HEIGHT);
+        ctx.lineTo(x, PADDING_TOP + timelineHeight);
         ctx.stroke();
 
         // Draw time label
@@ -482,19 +1156,33 @@ export default function SuperTimeline({
   }, [
     fights,
     selectedFightId,
-    events,
+    timelineEvents,
+    comparisonFight,
+    overviewEvents,
+    showOverview,
+    eventRowsByKey,
+    povName,
+    bossHealth,
+    eventIcons,
+    throughput,
+    maxThroughput,
+    showThroughput,
+    eventRows,
+    timelineHeight,
+    getEventShape,
+    interruptedAbilityIds,
     zoom,
     timeToX,
     xToTime,
     hoveredFight,
+    hoveredPhase,
     currentVideoTime,
     offset,
+    syncAnchors,
     videoOffsetSec,
     wclOffsetSec,
     videoDurationSec,
     reportDuration,
-    isDraggingSync,
-    isLocked,
   ]);
 
   // Calculate appropriate time step for markers based on zoom
@@ -557,36 +1245,6 @@ export default function SuperTimeline({
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
 
-      // Check if clicking on sync bars (only if unlocked)
-      if (!isLocked) {
-        const videoRowTop = PADDING_TOP;
-        const videoRowBottom = videoRowTop + SYNC_ROW_HEIGHT;
-        const wclRowTop = PADDING_TOP + SYNC_ROW_HEIGHT;
-        const wclRowBottom = wclRowTop + SYNC_ROW_HEIGHT;
-
-        // Check Video row
-        if (y >= videoRowTop && y <= videoRowBottom) {
-          const videoX = timeToX(videoOffsetSec);
-          const videoW = videoDurationSec * zoom;
-          if (x >= videoX && x <= videoX + videoW) {
-            setIsDraggingSync("video");
-            setDragStart({ x: e.clientX, panOffset });
-            return;
-          }
-        }
-
-        // Check WCL row
-        if (y >= wclRowTop && y <= wclRowBottom) {
-          const wclX = timeToX(wclOffsetSec);
-          const wclW = reportDuration * zoom;
-          if (x >= wclX && x <= wclX + wclW) {
-            setIsDraggingSync("wcl");
-            setDragStart({ x: e.clientX, panOffset });
-            return;
-          }
-        }
-      }
-
       // Check if clicking on a fight
       const fightsRowTop = PADDING_TOP + SYNC_ROW_HEIGHT * 2;
       const fightsRowBottom = fightsRowTop + FIGHT_ROW_HEIGHT;
@@ -605,59 +1263,45 @@ export default function SuperTimeline({
         }
       }
 
-      // Check if clicking on an event to seek video
-      if (selectedFightId && events.length > 0) {
-        const selectedFight = fights.find((f) => f.id === selectedFightId);
-        if (selectedFight) {
-          for (const event of events) {
-            // Event timestamp is already relative to report start in milliseconds
-            const eventTimeSec = event.timestamp / 1000;
-            const eventX = timeToX(eventTimeSec + wclOffsetSec);
-            const eventY =
-              event.type === "Casts" ? PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + 10 : PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + EVENT_ROW_HEIGHT + 10;
-
-            const distance = Math.sqrt(Math.pow(x - eventX, 2) + Math.pow(y - (eventY + 10), 2));
-            if (distance <= 6) {
-              // Clicked on event
-              // Event timestamp is relative to report start (WCL timeline position)
-              // Pass the WCL time to parent, which will handle conversion to video time
-              // Parent will do: videoTime = wclTime + offset
-              // So we need to pass: wclTime (which the parent calls 'eventTime')
-
-              console.log("Event clicked:", {
-                eventTimeSec,
-                offset,
-                calculation: `Passing ${eventTimeSec} to parent, which will calculate videoTime = ${eventTimeSec} + ${offset} = ${eventTimeSec + offset}`,
-              });
-
-              onTimelineClick(eventTimeSec);
-              return;
-            }
-          }
+      // Check if clicking on a phase to seek video to its start
+      if (y >= PHASE_ROW_TOP && y <= PHASE_ROW_TOP + PHASE_ROW_HEIGHT) {
+        const clicked = findPhaseAt(x);
+        if (clicked) {
+          onTimelineClick(clicked.phase.startTime / 1000);
+          return;
         }
       }
 
+      // Check if clicking on an event to seek video
+      const clickedEvent = findEventAt(x, y);
+      if (clickedEvent && clickedEvent.type === "Deaths" && !clickedEvent.isComparison && onDeathSelect) {
+        // Parent opens the death recap and handles seeking
+        onDeathSelect(clickedEvent);
+        return;
+      }
+
+      if (clickedEvent) {
+        // Event timestamp is relative to report start (WCL timeline position)
+        // Pass the WCL time to parent, which will handle conversion to video time
+        // Parent will do: videoTime = wclTime + offset
+        // So we need to pass: wclTime (which the parent calls 'eventTime')
+        const eventTimeSec = clickedEvent.timestamp / 1000;
+
+        console.log("Event clicked:", {
+          eventTimeSec,
+          offset,
+          calculation: `Passing ${eventTimeSec} to parent, which will calculate videoTime = ${eventTimeSec} + ${offset} = ${eventTimeSec + offset}`,
+        });
+
+        onTimelineClick(eventTimeSec);
+        return;
+      }
+
       // Start dragging
       setIsDragging(true);
       setDragStart({ x: e.clientX, panOffset });
     },
-    [
-      fights,
-      xToTime,
-      timeToX,
-      onFightSelect,
-      selectedFightId,
-      events,
-      panOffset,
-      onTimelineClick,
-      isLocked,
-      videoOffsetSec,
-      videoDurationSec,
-      wclOffsetSec,
-      reportDuration,
-      zoom,
-      offset,
-    ]
+    [fights, xToTime, onFightSelect, findPhaseAt, findEventAt, panOffset, onTimelineClick, onDeathSelect, wclOffsetSec, offset]
   );
 
   // Handle mouse move for dragging and hover
@@ -686,60 +1330,31 @@ export default function SuperTimeline({
         setHoveredFight(null);
       }
 
-      // Update hover state for events
-      if (selectedFightId && events.length > 0) {
-        const selectedFight = fights.find((f) => f.id === selectedFightId);
-        if (selectedFight) {
-          let foundEvent = null;
-
-          for (const event of events) {
-            // Event timestamp is already relative to report start in milliseconds
-            const eventTimeSec = event.timestamp / 1000;
-            const eventX = timeToX(eventTimeSec + wclOffsetSec);
-            const eventY =
-              event.type === "Casts" ? PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + 10 : PADDING_TOP + SYNC_ROW_HEIGHT * 2 + FIGHT_ROW_HEIGHT + EVENT_ROW_HEIGHT + 10;
-
-            const distance = Math.sqrt(Math.pow(x - eventX, 2) + Math.pow(y - (eventY + 10), 2));
-            if (distance <= 6) {
-              foundEvent = { ...event, x: eventX, y: eventY };
-              break;
-            }
-          }
-          setHoveredEvent(foundEvent);
-        }
+      // Update hover state for phases
+      setHoveredPhase(y >= PHASE_ROW_TOP && y <= PHASE_ROW_TOP + PHASE_ROW_HEIGHT ? findPhaseAt(x) : null);
+
+      // Update hover state for the output graph (latest bucket started before the cursor)
+      if (showThroughput && throughput.length > 0 && y >= THROUGHPUT_ROW_TOP && y <= THROUGHPUT_ROW_TOP + THROUGHPUT_ROW_HEIGHT) {
+        const timeMs = (xToTime(x) - wclOffsetSec) * 1000;
+        const bucket = timeMs >= throughput[0].timestamp ? [...throughput].reverse().find((b) => b.timestamp <= timeMs) : undefined;
+        setHoveredThroughput(bucket || null);
       } else {
-        setHoveredEvent(null);
+        setHoveredThroughput(null);
       }
 
-      // Handle sync bar dragging
-      if (isDraggingSync) {
-        const deltaX = e.clientX - dragStart.x;
-
-        if (isDraggingSync === "video") {
-          // Calculate the time shift based on pixel delta
-          const deltaTime = deltaX / zoom;
-          setVideoOffsetSec(videoOffsetSec + deltaTime);
-        } else if (isDraggingSync === "wcl") {
-          const deltaTime = deltaX / zoom;
-          setWclOffsetSec(wclOffsetSec + deltaTime);
-        }
-
-        // Update drag start for continuous dragging
-        setDragStart({ x: e.clientX, panOffset: dragStart.panOffset });
-        return;
-      }
+      // Update hover state for events
+      setHoveredEvent(findEventAt(x, y));
 
       if (!isDragging) return;
 
       const deltaX = e.clientX - dragStart.x;
       setPanOffset(dragStart.panOffset - deltaX);
     },
-    [isDragging, isDraggingSync, dragStart, xToTime, fights, timeToX, selectedFightId, events, zoom, videoOffsetSec, wclOffsetSec]
+    [isDragging, dragStart, xToTime, fights, findPhaseAt, findEventAt, showThroughput, throughput, wclOffsetSec]
   );
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
-    setIsDraggingSync(null);
   }, []);
 
   // Attach event listeners
@@ -775,37 +1390,6 @@ export default function SuperTimeline({
     }
   }, [isDragging, dragStart]);
 
-  // Handle global sync bar dragging
-  useEffect(() => {
-    if (isDraggingSync) {
-      const handleGlobalMouseMove = (e: MouseEvent) => {
-        const deltaX = e.clientX - dragStart.x;
-
-        if (isDraggingSync === "video") {
-          const deltaTime = deltaX / zoom;
-          setVideoOffsetSec((prev) => prev + deltaTime);
-        } else if (isDraggingSync === "wcl") {
-          const deltaTime = deltaX / zoom;
-          setWclOffsetSec((prev) => prev + deltaTime);
-        }
-
-        setDragStart({ x: e.clientX, panOffset: dragStart.panOffset });
-      };
-
-      const handleGlobalMouseUp = () => {
-        setIsDraggingSync(null);
-      };
-
-      document.addEventListener("mousemove", handleGlobalMouseMove);
-      document.addEventListener("mouseup", handleGlobalMouseUp);
-
-      return () => {
-        document.removeEventListener("mousemove", handleGlobalMouseMove);
-        document.removeEventListener("mouseup", handleGlobalMouseUp);
-      };
-    }
-  }, [isDraggingSync, dragStart, zoom]);
-
   return (
     <div className="w-full">
       <div className="mb-4 flex items-center justify-between">
@@ -814,37 +1398,43 @@ export default function SuperTimeline({
           <p className="text-xs text-gray-400">Scroll to zoom • Drag to pan • Click a fight to select and auto-zoom • Click events to seek video</p>
         </div>
 
-        {/* Lock toggle button */}
-        <button
-          onClick={() => {
-            if (isLocked && autoSynced) {
-              // Show warning when unlocking auto-synced timeline
-              const confirmed = window.confirm("Unlocking will allow manual adjustment of the sync. This may break the automatic synchronization. Continue?");
-              if (confirmed) {
-                setIsLocked(false);
-                setAutoSynced(false);
-              }
-            } else {
-              setIsLocked(!isLocked);
-            }
-          }}
-          className={`px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
-            isLocked ? "bg-green-600 border-green-500 text-white hover:bg-green-700" : "bg-[#1a1a2e] border-[#35354a] text-gray-300 hover:bg-[#232337]"
-          }`}
-          title={isLocked ? "Timeline sync is locked" : "Timeline sync is unlocked - drag Video or WCL bars to adjust"}
-        >
-          {isLocked ? (
-            <>
-              <span>🔒</span>
-              <span className="text-sm">Locked</span>
-            </>
-          ) : (
-            <>
-              <span>🔓</span>
-              <span className="text-sm">Unlocked</span>
-            </>
+        <div className="flex items-center gap-2">
+          {/* Trash pulls toggle */}
+          {hasTrash && (
+            <button
+              onClick={() => setShowTrash(!showTrash)}
+              className={`px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+                showTrash ? "bg-[#232337] border-gray-400 text-white" : "bg-[#1a1a2e] border-[#35354a] text-gray-300 hover:bg-[#232337]"
+              }`}
+              title={showTrash ? "Hide trash pulls" : "Show trash pulls"}
+            >
+              <span>👾</span>
+              <span className="text-sm">Trash</span>
+            </button>
           )}
-        </button>
+
+          {/* Output graph toggle */}
+          <button
+            onClick={() => setShowThroughput(!showThroughput)}
+            className={`px-4 py-2 rounded-lg border transition-colors flex items-center gap-2 ${
+              showThroughput ? "bg-[#232337] border-orange-500 text-white" : "bg-[#1a1a2e] border-[#35354a] text-gray-300 hover:bg-[#232337]"
+            }`}
+            title={showThroughput ? "Hide raid damage and healing graph" : "Show raid damage and healing graph"}
+          >
+            <span>📈</span>
+            <span className="text-sm">Output</span>
+          </button>
+
+          {/* Sync status; the sync itself is set from a paused video frame */}
+          <div
+            className="px-4 py-2 rounded-lg border bg-[#1a1a2e] border-[#35354a] text-gray-300 flex items-center gap-2"
+            title={syncAnchors.length > 0 ? "Video and log are mapped between sync anchors" : syncSource ? `Auto-synced from ${syncSource}` : "Log time = video time + offset"}
+          >
+            <span>🔗</span>
+            <span className="text-sm">{syncAnchors.length > 0 ? `${syncAnchors.length} anchors` : `Offset ${offset < 0 ? "-" : "+"}${formatTime(Math.abs(offset))}`}</span>
+            {syncSource && <span className="text-xs text-gray-400">• {syncSource}</span>}
+          </div>
+        </div>
       </div>
 
       <div ref={containerRef} className="relative bg-[#181824] rounded-lg border border-[#35354a] overflow-hidden" style={{ cursor: isDragging ? "grabbing" : "grab" }}>
@@ -855,18 +1445,75 @@ export default function SuperTimeline({
           <div className="absolute top-2 left-2 bg-[#1a1a2e] border border-[#35354a] rounded px-3 py-2 text-sm text-white pointer-events-none z-10">
             <div className="font-semibold">{hoveredFight.name}</div>
             <div className="text-xs text-gray-400">
-              Duration: {formatTime((hoveredFight.endTime - hoveredFight.startTime) / 1000)} • {hoveredFight.kill ? "Kill 🏆" : "Wipe 💀"}
+              Duration: {formatTime((hoveredFight.endTime - hoveredFight.startTime) / 1000)} • {hoveredFight.isTrash ? "Trash" : hoveredFight.kill ? "Kill 🏆" : "Wipe 💀"}
+              {deathCountsByFight.has(hoveredFight.id) ? ` • ${deathCountsByFight.get(hoveredFight.id)} deaths` : ""}
+            </div>
+          </div>
+        )}
+
+        {hoveredPhase && (
+          <div className="absolute top-2 left-2 bg-[#1a1a2e] border border-[#35354a] rounded px-3 py-2 text-sm text-white pointer-events-none z-10">
+            <div className="font-semibold">{hoveredPhase.phase.name || getPhaseShortLabel(hoveredPhase.phase)}</div>
+            <div className="text-xs text-gray-300">
+              {hoveredPhase.fight.name} • {formatTime((hoveredPhase.phase.endTime - hoveredPhase.phase.startTime) / 1000)}
             </div>
+            <div className="text-xs text-gray-400">Click to seek video to phase start</div>
+          </div>
+        )}
+
+        {hoveredThroughput && (
+          <div className="absolute top-2 left-2 bg-[#1a1a2e] border border-[#35354a] rounded px-3 py-2 text-sm text-white pointer-events-none z-10">
+            <div className="font-semibold">📈 Raid Output</div>
+            <div className="text-xs text-orange-400">{hoveredThroughput.damage.toLocaleString()} DPS</div>
+            <div className="text-xs text-green-400">{hoveredThroughput.healing.toLocaleString()} HPS</div>
           </div>
         )}
 
         {hoveredEvent && (
           <div className="absolute top-2 left-2 bg-[#1a1a2e] border border-[#35354a] rounded px-3 py-2 text-sm text-white pointer-events-none z-10">
             <div className="font-semibold">
-              {hoveredEvent.type === "Deaths" ? "☠️ Death" : "⚔️ Cast"}
-              {hoveredEvent.ability ? `: ${hoveredEvent.ability.name}` : ""}
+              {EVENT_TITLES[hoveredEvent.type]}
+              {hoveredEvent.abilityInfo ? `: ${hoveredEvent.abilityInfo.name}` : hoveredEvent.ability ? `: ${hoveredEvent.ability.name}` : ""}
+            </div>
+            {hoveredEvent.type === "DamageTaken" && (
+              <div className="text-xs text-gray-300">
+                {(hoveredEvent.amount || 0).toLocaleString()} damage
+                {hoveredEvent.targetInfo ? ` to ${hoveredEvent.targetInfo.name}` : ""}
+                {hoveredEvent.overkill ? ` (${hoveredEvent.overkill.toLocaleString()} overkill)` : ""}
+              </div>
+            )}
+            {(hoveredEvent.type === "Interrupts" || hoveredEvent.type === "Dispels") && (
+              <div className="text-xs text-gray-300">
+                {hoveredEvent.sourceInfo?.name || "Unknown"} {hoveredEvent.type === "Interrupts" ? "interrupted" : "removed"}{" "}
+                {hoveredEvent.extraAbilityInfo?.name || "an unknown spell"}
+              </div>
+            )}
+            {hoveredEvent.type === "Casts" && interruptedAbilityIds.has(hoveredEvent.abilityGameID) && <div className="text-xs text-yellow-400">Not interrupted</div>}
+            {hoveredEvent.type === "Auras" && (
+              <div className="text-xs text-gray-300">
+                On {hoveredEvent.targetInfo?.name || "Unknown"} for {formatTime((hoveredEvent.duration || 0) / 1000)}
+              </div>
+            )}
+            {hoveredEvent.type === "RaidConsumables" && (
+              <div className="text-xs text-gray-300">
+                {hoveredEvent.sourceInfo?.name || "Unknown"}
+                {hoveredEvent.consumableType === "battleRes" ? ` resurrected ${hoveredEvent.targetInfo?.name || "someone"}` : ""}
+                {hoveredEvent.consumableType === "soulstone" ? ` soulstoned ${hoveredEvent.targetInfo?.name || "someone"}` : ""}
+              </div>
+            )}
+            {hoveredEvent.type === "Cooldowns" && (
+              <div className="text-xs text-gray-300">
+                {hoveredEvent.sourceInfo?.name} • {hoveredEvent.cooldownType} • {formatTime((hoveredEvent.duration || 0) / 1000)}
+              </div>
+            )}
+            {hoveredEvent.isComparison && comparisonFight && (
+              <div className="text-xs text-violet-300">
+                Pull {comparisonLabel} at {formatTime((hoveredEvent.timestamp - (alignedFightStart || 0)) / 1000)}
+              </div>
+            )}
+            <div className="text-xs text-gray-400">
+              {hoveredEvent.type === "Deaths" && !hoveredEvent.isComparison && onDeathSelect ? "Click for death recap" : "Click to seek video"}
             </div>
-            <div className="text-xs text-gray-400">Click to seek video</div>
           </div>
         )}
       </div>
@@ -889,6 +1536,12 @@ export default function SuperTimeline({
           <div className="w-4 h-4 bg-red-600 rounded"></div>
           <span>Wipe</span>
         </div>
+        {showTrash && (
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-gray-700 rounded"></div>
+            <span>Trash</span>
+          </div>
+        )}
         <div className="flex items-center space-x-2">
           <div className="w-4 h-4 bg-orange-500 rounded-full"></div>
           <span>Boss Ability</span>
@@ -897,6 +1550,78 @@ export default function SuperTimeline({
           <div className="w-4 h-4 bg-red-600 rounded-full"></div>
           <span>Death</span>
         </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-1 h-4 bg-amber-500"></div>
+          <span>Damage Taken</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-3 bg-blue-500 rounded"></div>
+          <span>Personal CD</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-3 bg-purple-500 rounded"></div>
+          <span>External CD</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-3 bg-teal-500 rounded"></div>
+          <span>Raid CD</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-fuchsia-500 rounded-full"></div>
+          <span>Bloodlust</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-lime-500 rounded-full"></div>
+          <span>Battle Res</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-violet-400 rounded-full"></div>
+          <span>Pre-pull Soulstone</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-violet-500 rounded-full"></div>
+          <span>Potion</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-rose-500 rounded-full"></div>
+          <span>Healing Consumable</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-green-500 rounded-full"></div>
+          <span>Interrupt</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-cyan-500 rounded-full"></div>
+          <span>Dispel</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-4 bg-orange-500 rounded-full ring-2 ring-yellow-400"></div>
+          <span>Missed Kick</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-3 bg-rose-600 rounded"></div>
+          <span>Boss Debuff</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-3 bg-indigo-600 rounded"></div>
+          <span>Phase</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="w-4 h-0.5 bg-white"></div>
+          <span>Boss Health</span>
+        </div>
+        {showThroughput && (
+          <>
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-3 bg-orange-500/50 border-t border-orange-500"></div>
+              <span>Raid DPS</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-3 bg-green-500/40 border-t border-green-500"></div>
+              <span>Raid HPS</span>
+            </div>
+          </>
+        )}
         <div className="flex items-center space-x-2">
           <div className="w-1 h-4 bg-blue-500"></div>
           <span>Current Time</span>
@@ -26,15 +26,18 @@ export interface TwitchPlayerProps {
   startSeconds?: number;
   onReady?: (player: TwitchPlayer) => void;
   onTimeUpdate?: (currentTime: number) => void;
+  onPlayingChange?: (playing: boolean) => void;
 }
 
 export interface TwitchPlayerRef {
   seekTo: (seconds: number) => void;
   getCurrentTime: () => number;
+  play: () => void;
+  pause: () => void;
   player: TwitchPlayer | null;
 }
 
-const TwitchPlayer = forwardRef<TwitchPlayerRef, TwitchPlayerProps>(({ videoId, startSeconds = 0, onReady, onTimeUpdate }, ref) => {
+const TwitchPlayer = forwardRef<TwitchPlayerRef, TwitchPlayerProps>(({ videoId, startSeconds = 0, onReady, onTimeUpdate, onPlayingChange }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [player, setPlayer] = useState<TwitchPlayer | null>(null);
   const [isReady, setIsReady] = useState(false);
@@ -50,6 +53,12 @@ const TwitchPlayer = forwardRef<TwitchPlayerRef, TwitchPlayerProps>(({ videoId,
     getCurrentTime: () => {
       return player ? player.getCurrentTime() : 0;
     },
+    play: () => {
+      player?.play();
+    },
+    pause: () => {
+      player?.pause();
+    },
     player,
   }));
 
@@ -102,11 +111,11 @@ const TwitchPlayer = forwardRef<TwitchPlayerRef, TwitchPlayerProps>(({ videoId,
         });
 
         newPlayer.addEventListener("pause", () => {
-          // Handle pause if needed
+          onPlayingChange?.(false);
         });
 
         newPlayer.addEventListener("play", () => {
-          // Handle play if needed
+          onPlayingChange?.(true);
         });
       }
     };
@@ -119,7 +128,7 @@ const TwitchPlayer = forwardRef<TwitchPlayerRef, TwitchPlayerProps>(({ videoId,
         player.destroy();
       }
     };
-  }, [videoId, startSeconds, onReady, player]);
+  }, [videoId, startSeconds, onReady, onPlayingChange, player]);
 
   return (
     <div className="w-full h-full relative">
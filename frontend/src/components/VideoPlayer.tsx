@@ -10,14 +10,17 @@ export interface VideoPlayerProps {
   startSeconds?: number;
   onReady?: () => void;
   onTimeUpdate?: (currentTime: number) => void;
+  onPlayingChange?: (playing: boolean) => void; // Called when playback starts or pauses
 }
 
 export interface VideoPlayerRef {
   seekTo: (seconds: number) => void;
   getCurrentTime: () => number;
+  play: () => void;
+  pause: () => void;
 }
 
-const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ platform, videoId, startSeconds = 0, onReady, onTimeUpdate }, ref) => {
+const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ platform, videoId, startSeconds = 0, onReady, onTimeUpdate, onPlayingChange }, ref) => {
   const youtubePlayerRef = useRef<YouTubePlayerRef>(null);
   const twitchPlayerRef = useRef<TwitchPlayerRef>(null);
 
@@ -37,14 +40,28 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ platform, vi
       }
       return 0;
     },
+    play: () => {
+      if (platform === "youtube") {
+        youtubePlayerRef.current?.play();
+      } else if (platform === "twitch") {
+        twitchPlayerRef.current?.play();
+      }
+    },
+    pause: () => {
+      if (platform === "youtube") {
+        youtubePlayerRef.current?.pause();
+      } else if (platform === "twitch") {
+        twitchPlayerRef.current?.pause();
+      }
+    },
   }));
 
   if (platform === "youtube") {
-    return <YouTubePlayer ref={youtubePlayerRef} videoId={videoId} startSeconds={startSeconds} onReady={onReady} onTimeUpdate={onTimeUpdate} />;
+    return <YouTubePlayer ref={youtubePlayerRef} videoId={videoId} startSeconds={startSeconds} onReady={onReady} onTimeUpdate={onTimeUpdate} onPlayingChange={onPlayingChange} />;
   }
 
   if (platform === "twitch") {
-    return <TwitchPlayer ref={twitchPlayerRef} videoId={videoId} startSeconds={startSeconds} onReady={onReady} onTimeUpdate={onTimeUpdate} />;
+    return <TwitchPlayer ref={twitchPlayerRef} videoId={videoId} startSeconds={startSeconds} onReady={onReady} onTimeUpdate={onTimeUpdate} onPlayingChange={onPlayingChange} />;
   }
 
   return (
@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getWclLoginUrl } from "@/lib/wclSession";
+
+// Log in with a Warcraft Logs account to review private and guild-only reports
+export default function WclLoginButton() {
+  const [userName, setUserName] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadUser = async () => {
+      try {
+        const response = await fetch("http://localhost:3001/api/auth/wcl/me", { credentials: "include" });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load Warcraft Logs user");
+        }
+
+        setUserName(data.loggedIn ? data.userName : null);
+      } catch (err) {
+        console.error("Failed to load Warcraft Logs user:", err);
+      }
+    };
+
+    loadUser();
+  }, []);
+
+  const handleLogout = async () => {
+    try {
+      await fetch("http://localhost:3001/api/auth/wcl/logout", { method: "POST", credentials: "include" });
+    } catch (err) {
+      console.error("Failed to log out of Warcraft Logs:", err);
+    }
+
+    setUserName(null);
+  };
+
+  if (userName) {
+    return (
+      <div className="text-xs text-gray-400">
+        Logged in to Warcraft Logs as <span className="text-gray-200">{userName}</span> •{" "}
+        <button onClick={handleLogout} className="hover:text-white">
+          Log out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => (window.location.href = getWclLoginUrl(window.location.href))}
+      className="text-xs text-blue-400 hover:text-blue-300"
+      title="Needed for private and guild-only reports"
+    >
+      Log in with Warcraft Logs
+    </button>
+  );
+}
@@ -13,6 +13,7 @@ interface YTPlayer {
 
 interface YTPlayerEvent {
   target: YTPlayer;
+  data?: number; // Player state on state changes
 }
 
 declare global {
@@ -38,15 +39,18 @@ export interface YouTubePlayerProps {
   onReady?: (player: YTPlayer) => void;
   onStateChange?: (event: YTPlayerEvent) => void;
   onTimeUpdate?: (currentTime: number) => void;
+  onPlayingChange?: (playing: boolean) => void;
 }
 
 export interface YouTubePlayerRef {
   seekTo: (seconds: number) => void;
   getCurrentTime: () => number;
+  play: () => void;
+  pause: () => void;
   player: YTPlayer | null;
 }
 
-const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({ videoId, startSeconds = 0, onReady, onStateChange, onTimeUpdate }, ref) => {
+const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({ videoId, startSeconds = 0, onReady, onStateChange, onTimeUpdate, onPlayingChange }, ref) => {
   const playerRef = useRef<HTMLDivElement>(null);
   const [player, setPlayer] = useState<YTPlayer | null>(null);
   const [isReady, setIsReady] = useState(false);
@@ -61,6 +65,12 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({ videoI
     getCurrentTime: () => {
       return player ? player.getCurrentTime() : 0;
     },
+    play: () => {
+      player?.playVideo();
+    },
+    pause: () => {
+      player?.pauseVideo();
+    },
     player,
   }));
 
@@ -114,6 +124,11 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({ videoI
             },
             onStateChange: (event: YTPlayerEvent) => {
               onStateChange?.(event);
+
+              // Buffering and cueing are neither, so only report actual plays and pauses
+              if (event.data === window.YT.PlayerState.PLAYING || event.data === window.YT.PlayerState.PAUSED) {
+                onPlayingChange?.(event.data === window.YT.PlayerState.PLAYING);
+              }
             },
           },
         });
@@ -136,7 +151,7 @@ const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(({ videoI
         player.destroy();
       }
     };
-  }, [videoId, startSeconds, onReady, onStateChange, player]);
+  }, [videoId, startSeconds, onReady, onStateChange, onPlayingChange, player]);
 
   return (
     <div className="w-full h-full relative">
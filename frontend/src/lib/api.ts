@@ -5,6 +5,7 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 export interface WCLData {
   code: string;
   fightId?: number;
+  extraCodes?: string[]; // Further reports of the same raid night to merge in
 }
 
 export interface VODData {
@@ -18,6 +19,13 @@ export interface ParsedURLs {
   vod: VODData;
 }
 
+export interface PhaseTransition {
+  id: number;
+  startTime: number; // Relative to report start in ms
+  name?: string;
+  isIntermission?: boolean;
+}
+
 export interface Fight {
   id: number;
   name: string;
@@ -28,6 +36,11 @@ export interface Fight {
   kill?: boolean;
   fightPercentage?: number;
   lastPhase?: number;
+  phaseTransitions?: PhaseTransition[];
+  isTrash?: boolean; // Pull without an encounter
+  reportCode?: string; // Report the fight comes from in a merged session
+  reportFightId?: number; // Fight ID within that report
+  reportOffset?: number; // ms from the session start to that report's start
 }
 
 export interface Report {
@@ -43,10 +56,16 @@ export interface Report {
 
 export interface Event {
   timestamp: number;
-  type: "Deaths" | "Casts";
+  type: "Deaths" | "Casts" | "DamageTaken" | "Cooldowns" | "Interrupts" | "Dispels" | "Auras" | "RaidConsumables";
   sourceID?: number;
   targetID?: number;
   abilityGameID?: number;
+  extraAbilityGameID?: number;
+  amount?: number;
+  overkill?: number;
+  duration?: number;
+  cooldownType?: "personal" | "external" | "raid";
+  consumableType?: "bloodlust" | "battleRes" | "soulstone" | "potion" | "healing";
   // Add more event properties as needed
 }
 
@@ -58,6 +77,8 @@ export interface VideoMetadata {
   platform: "youtube" | "twitch";
   id: string;
   publishedAt?: string; // YouTube
+  actualStartTime?: string; // YouTube livestreams: when the broadcast started
+  actualEndTime?: string; // YouTube livestreams: when the broadcast ended
   createdAt?: string; // Twitch
   title: string;
   description?: string;
@@ -65,13 +86,13 @@ export interface VideoMetadata {
 }
 
 // Parse URLs
-export async function parseURLs(wclUrl: string, vodUrl: string): Promise<ParsedURLs> {
+export async function parseURLs(wclUrl: string, vodUrl: string, extraWclUrls: string[] = []): Promise<ParsedURLs> {
   const response = await fetch(`${API_BASE}/api/parse-urls`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ wclUrl, vodUrl }),
+    body: JSON.stringify({ wclUrl, vodUrl, extraWclUrls }),
   });
 
   if (!response.ok) {
@@ -84,7 +105,7 @@ export async function parseURLs(wclUrl: string, vodUrl: string): Promise<ParsedU
 
 // Get WCL report summary
 export async function getWCLReport(code: string): Promise<Report> {
-  const response = await fetch(`${API_BASE}/api/wcl/reports/${code}`);
+  const response = await fetch(`${API_BASE}/api/wcl/reports/${code}`, { credentials: "include" });
 
   if (!response.ok) {
     const error = await response.json();
@@ -104,6 +125,7 @@ export async function getWCLEvents(
 ): Promise<EventsResponse> {
   const response = await fetch(`${API_BASE}/api/wcl/reports/${code}/events`, {
     method: "POST",
+    credentials: "include",
     headers: {
       "Content-Type": "application/json",
     },
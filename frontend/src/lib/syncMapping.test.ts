@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { addSyncAnchor, videoToWclTime, wclToVideoTime, SyncAnchor } from "./syncMapping";
+
+// Video starts 100s before the log; an 8s cut break between the two anchors
+const anchors: SyncAnchor[] = [
+  { videoTime: 200, wclTime: 100 },
+  { videoTime: 400, wclTime: 308 },
+];
+
+describe("videoToWclTime", () => {
+  it("applies the constant offset without anchors", () => {
+    expect(videoToWclTime(50, 12.5, [])).toBe(62.5);
+  });
+
+  it("interpolates linearly between anchors", () => {
+    expect(videoToWclTime(200, 0, anchors)).toBe(100);
+    expect(videoToWclTime(300, 0, anchors)).toBe(204);
+    expect(videoToWclTime(400, 0, anchors)).toBe(308);
+  });
+
+  it("keeps the nearest anchor's offset outside the anchors", () => {
+    expect(videoToWclTime(150, 0, anchors)).toBe(50);
+    expect(videoToWclTime(500, 0, anchors)).toBe(408);
+  });
+
+  it("uses a single anchor as a constant offset, ignoring the fallback", () => {
+    expect(videoToWclTime(10, 999, [{ videoTime: 30, wclTime: 20 }])).toBe(0);
+  });
+
+  it("does not depend on the anchor order", () => {
+    expect(videoToWclTime(300, 0, [...anchors].reverse())).toBe(204);
+  });
+});
+
+describe("wclToVideoTime", () => {
+  it("inverts the constant offset without anchors", () => {
+    expect(wclToVideoTime(62.5, 12.5, [])).toBe(50);
+  });
+
+  it("inverts the anchor mapping between and outside the anchors", () => {
+    [150, 200, 275, 400, 500].forEach((videoTime) => {
+      expect(wclToVideoTime(videoToWclTime(videoTime, 0, anchors), 0, anchors)).toBeCloseTo(videoTime);
+    });
+  });
+});
+
+describe("addSyncAnchor", () => {
+  it("keeps anchors sorted by video time", () => {
+    expect(addSyncAnchor(anchors, { videoTime: 300, wclTime: 205 })).toEqual([anchors[0], { videoTime: 300, wclTime: 205 }, anchors[1]]);
+  });
+
+  it("replaces an anchor at nearly the same video moment", () => {
+    expect(addSyncAnchor(anchors, { videoTime: 200.5, wclTime: 101 })).toEqual([{ videoTime: 200.5, wclTime: 101 }, anchors[1]]);
+  });
+
+  it("drops anchors that would make the mapping run backwards", () => {
+    expect(addSyncAnchor(anchors, { videoTime: 300, wclTime: 50 })).toEqual([{ videoTime: 300, wclTime: 50 }, anchors[1]]);
+  });
+});
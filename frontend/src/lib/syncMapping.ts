@@ -0,0 +1,49 @@
+// Video <-> log time mapping built from sync anchors
+
+// A video moment pinned to the log moment it shows, both in seconds (log time relative to report start)
+export interface SyncAnchor {
+  videoTime: number;
+  wclTime: number;
+}
+
+// Anchors closer than this on the video replace each other instead of forming a near-vertical segment
+export const MIN_ANCHOR_SPACING_SEC = 1;
+
+type AnchorKey = keyof SyncAnchor;
+
+// Map a time from one clock to the other. Between two anchors the mapping is linear, which absorbs encoder
+// drift and spreads a cut break over the segment around it; outside the outermost anchors the nearest
+// anchor's offset is kept. Without anchors the constant offset applies.
+const mapTime = (time: number, fallbackOffset: number, anchors: SyncAnchor[], from: AnchorKey, to: AnchorKey) => {
+  if (anchors.length === 0) return time + fallbackOffset;
+
+  const sorted = [...anchors].sort((a, b) => a[from] - b[from]);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  if (time <= first[from]) return time + first[to] - first[from];
+  if (time >= last[from]) return time + last[to] - last[from];
+
+  const nextIndex = sorted.findIndex((anchor) => anchor[from] > time);
+  const prev = sorted[nextIndex - 1];
+  const next = sorted[nextIndex];
+  const ratio = (time - prev[from]) / (next[from] - prev[from]);
+
+  return prev[to] + ratio * (next[to] - prev[to]);
+};
+
+// Formula without anchors: wclTime = videoTime + offset
+export const videoToWclTime = (videoTime: number, offset: number, anchors: SyncAnchor[]) => mapTime(videoTime, offset, anchors, "videoTime", "wclTime");
+
+export const wclToVideoTime = (wclTime: number, offset: number, anchors: SyncAnchor[]) => mapTime(wclTime, -offset, anchors, "wclTime", "videoTime");
+
+// Add an anchor, dropping ones at nearly the same video moment or that would make the mapping run backwards
+export const addSyncAnchor = (anchors: SyncAnchor[], anchor: SyncAnchor): SyncAnchor[] =>
+  [
+    ...anchors.filter(
+      (existing) =>
+        Math.abs(existing.videoTime - anchor.videoTime) >= MIN_ANCHOR_SPACING_SEC &&
+        Math.sign(existing.videoTime - anchor.videoTime) === Math.sign(existing.wclTime - anchor.wclTime)
+    ),
+    anchor,
+  ].sort((a, b) => a.videoTime - b.videoTime);
@@ -0,0 +1,10 @@
+// Login with the user's own Warcraft Logs account, so private and guild-only reports can be fetched.
+// The backend keeps the session in an HttpOnly cookie; WCL requests send it with credentials: "include"
+// (fetch) or withCredentials (EventSource)
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// Backend URL that starts the WCL login and comes back to returnTo
+export function getWclLoginUrl(returnTo: string): string {
+  return `${API_BASE}/api/auth/wcl/login?returnTo=${encodeURIComponent(returnTo)}`;
+}